@@ -1,6 +1,20 @@
 import './polyfills/global';
 import Skapi from "./main/skapi";
-import SkapiError from "./main/error";
+import SkapiError, { SkapiAuthError, SkapiValidationError, SkapiNetworkError, SkapiPermissionError, SkapiConflictError, isSkapiError } from "./main/error";
+import { MemoryStorage, WebStorage, IndexedDBStorage } from "./utils/storage";
 import * as Types from "./Types";
 
-export { Skapi, SkapiError, Types };
\ No newline at end of file
+export {
+    Skapi,
+    SkapiError,
+    SkapiAuthError,
+    SkapiValidationError,
+    SkapiNetworkError,
+    SkapiPermissionError,
+    SkapiConflictError,
+    isSkapiError,
+    MemoryStorage,
+    WebStorage,
+    IndexedDBStorage,
+    Types
+};
@@ -1,3 +1,6 @@
+import type SkapiError from './main/error';
+import type Skapi from './main/skapi';
+
 export type Condition = 'gt' | 'gte' | 'lt' | 'lte' | 'eq' | '>' | '>=' | '<' | '<=' | '=';
 
 
@@ -54,6 +57,10 @@ export type RealtimeCallback = (rt: WebSocketMessage) => void;
 export type DelRecordQuery = GetRecordQuery & {
     unique_id?: string | string[];
     record_id?: string | string[];
+    /** Deletes only when "updated" of the record is still this timestamp. Requires a single record_id or unique_id. */
+    expectedUpdated?: number;
+    /** Alias of expectedUpdated. */
+    ifUnmodifiedSince?: number;
 };
 
 export type GetRecordQuery = {
@@ -137,8 +144,46 @@ export type PostRecordConfig = {
     tags?: string[] | null; // null removes all tags
     remove_bin?: BinaryFile[] | string[] | null; // Removes bin data from the record. When null, it will remove all bin data.
     progress?: ProgressCallback; // Callback for database request progress. Useful when building progress bar.
+    signal?: AbortSignal; // Cancels the request and file uploads when aborted.
+    /** Updates only when "updated" of the record is still this timestamp. Otherwise throws SkapiConflictError with the current record. Requires "record_id". */
+    expectedUpdated?: number;
+    /** Alias of expectedUpdated. */
+    ifUnmodifiedSince?: number;
 }
 
+/** Array change of RecordPatch. Items are compared by value. Removed first, then appended. */
+export type ArrayPatch = {
+    $append?: any[];
+    $remove?: any[];
+};
+
+/**
+ * JSON Merge Patch of the record. Keys can be dotted paths. ex) { 'data.profile.name': 'Baksa' }
+ * null deletes the key. Arrays are replaced unless ArrayPatch is given. ex) { 'data.likes': { $append: [user_id] } }
+ * tags, index and bin are kept as is unless named.
+ */
+export type RecordPatch = {
+    data?: Record<string, any> | null;
+    tags?: string[] | ArrayPatch | null;
+    index?: { name?: string; value?: string | number | boolean; } | null;
+    remove_bin?: BinaryFile[] | string[] | null;
+    [path: `data.${string}` | `index.${string}`]: any;
+};
+
+/** Arguments of each postRecord() call of postRecords(). */
+export type PostRecordsItem<T = Record<string, any>> = {
+    form: Form<T> | null | undefined;
+    config: PostRecordConfig;
+    files?: { name: string, file: File; }[];
+};
+
+export type PostRecordsResult<T = Record<string, any>> = {
+    /** Posted records in the order of the items. */
+    succeeded: RecordData<T>[];
+    /** index is of the items. Items skipped by stopOnError fails with code: 'ABORTED' */
+    failed: { index: number; error: SkapiError; }[];
+};
+
 export type BinaryFile = {
     access_group: number | 'private' | 'public' | 'authorized';
     filename: string;
@@ -149,7 +194,8 @@ export type BinaryFile = {
     getFile: (dataType?: 'base64' | 'endpoint' | 'blob', progress?: ProgressCallback) => Promise<Blob | string | void>;
 }
 
-export type RecordData = {
+/** T is the shape of the record data. */
+export type RecordData<T = Record<string, any>> = {
     record_id: string;
     unique_id?: string;
     user_id: string;
@@ -187,11 +233,13 @@ export type RecordData = {
         name: string;
         value: string | number | boolean;
     };
-    data?: Record<string, any>;
+    data?: T;
     tags?: string[];
     bin: { [key: string]: BinaryFile[] };
     ip: string;
     readonly: boolean;
+    /** true when the record is queued in offline mode and not yet posted. record_id starts with 'pending:' on new records. */
+    pending?: boolean;
 }
 
 export type Connection = {
@@ -354,6 +402,90 @@ export type ProgressCallback = (e: {
     abort: () => void; // Aborts current data transfer. When abort is triggered during the FileList is on trasmit, it will continue to next file.
 }) => void;
 
+/** Error codes of SkapiError. Errors relayed from the server or authentication provider may have other codes. */
+export type SkapiErrorCode =
+    | 'ERROR'
+    | 'INVALID_PARAMETER'
+    | 'INVALID_REQUEST'
+    | 'INVALID_CORS'
+    | 'SERVICE_DISABLED'
+    | 'PERMISSION_DENIED'
+    | 'EXISTS'
+    | 'NOT_EXISTS'
+    | 'CONFLICT'
+    | 'ACCOUNT_EXISTS'
+    | 'NOT_SUPPORTED'
+    | 'PARSE_ERROR'
+    | 'ABORTED'
+    | 'TIMEOUT'
+    | 'NETWORK_ERROR'
+    | 'TOO_MANY_REQUESTS'
+    | 'REQUEST_EXCEED'
+    | 'SESSION_STORAGE_DISABLED'
+    | 'SIGNUP_CONFIRMATION_NEEDED'
+    | 'INCORRECT_USERNAME_OR_PASSWORD'
+    | 'USER_IS_DISABLED'
+    | (string & {});
+
+/** Invalid field of the parameters. ex) { path: 'table.name', code: 'required', message: '"table.name" is required.' } */
+export type ValidationIssue = {
+    /** Dotted path of the field. ex) 'table.name', 'tags[0]' */
+    path: string;
+    /** Reason of the failure. ex) 'required', 'type', 'invalid' */
+    code: string;
+    message: string;
+    /** Parameters of the message template. Set when the message can be translated. */
+    messageParams?: Record<string, any>;
+};
+
+/**
+ * Message templates keyed by error code and message id. ex) { 'INVALID_PARAMETER.required': '"{param}" is required.' }
+ * Key can be narrowed to a parameter. ex) 'INVALID_PARAMETER.required.email'
+ * Errors without message id are keyed by the error code. ex) { 'NETWORK_ERROR': 'Network error.' }
+ */
+export type MessageCatalog = { [key: string]: string; };
+
+export type SchemaType = 'string' | 'number' | 'integer' | 'boolean' | 'object' | 'array' | 'null';
+
+/** JSON-Schema-like definition of a value. */
+export type JsonSchema = {
+    type?: SchemaType | SchemaType[];
+    enum?: (string | number | boolean | null)[];
+    /** string */
+    minLength?: number;
+    maxLength?: number;
+    /** Regular expression string */
+    pattern?: string;
+    /** number */
+    minimum?: number;
+    maximum?: number;
+    /** object */
+    properties?: { [key: string]: JsonSchema; };
+    required?: string[];
+    /** When false, keys not in properties are not allowed. Default: true */
+    additionalProperties?: boolean | JsonSchema;
+    /** array */
+    items?: JsonSchema;
+    minItems?: number;
+    maxItems?: number;
+};
+
+/** Schema of the records in a table. Validated on postRecord() before sending. */
+export type TableSchema = {
+    data?: JsonSchema;
+    index?: {
+        /** When true, records should be posted with an index. */
+        required?: boolean;
+        name?: JsonSchema;
+        value?: JsonSchema;
+    };
+    /** Schema of the tag list. ex) { type: 'array', items: { enum: ['news', 'notice'] } } */
+    tags?: JsonSchema;
+};
+
+/** Key of the item a page starts from. ex) DatabaseResponse.startKey of the previous page */
+export type StartKey = { [key: string]: any; };
+
 export type FetchOptions = {
     /** Maximum number of records to fetch per call */
     limit?: number;
@@ -362,18 +494,123 @@ export type FetchOptions = {
     /** Result in ascending order if true, decending when false. */
     ascending?: boolean;
     /** Start key to be used to query from the certain batch of fetch. */
-    startKey?: { [key: string]: any; };
+    startKey?: StartKey;
+    /** Fetches the page of the cursor. nextCursor or prevCursor of DatabaseResponse. Overrides startKey and fetchMore. */
+    cursor?: string;
     /** Callback for database request progress. Useful when building progress bar. */
     progress?: ProgressCallback;
+    /** Cancels the request when aborted. Rejects with SkapiError code: 'ABORTED' */
+    signal?: AbortSignal;
+    /** Overrides retry policy of the request. false disables retry. */
+    retry?: RetryPolicy | false;
+    /** Request timeout in milliseconds. 0 for no timeout. Rejects with SkapiError code: 'TIMEOUT' */
+    timeout?: number;
+    /** When false, skips the query cache and fetches from the server. The response is still cached. Default: true */
+    cache?: boolean;
 }
 
+/** Method that returns DatabaseResponse. ex) skapi.getRecords */
+export type PageMethod<Q, T> = (query: Q, fetchOptions?: FetchOptions) => Promise<DatabaseResponse<T>>;
+
+export type IterateOptions = Omit<FetchOptions, 'fetchMore' | 'progress'> & {
+    /** Yields each page of DatabaseResponse instead of each item. Default: false */
+    pages?: boolean;
+    /** Stops after yielding this number of items. */
+    maxItems?: number;
+};
+
+export type CachePolicy = {
+    /** Milliseconds a response stays fresh. Number for all read requests, or per request name. ex) { 'get-records': 30000 }. Default: 0 (no cache) */
+    ttl?: number | { [request: string]: number };
+    /** Milliseconds a response past its ttl is still returned while being refetched in the background. Default: 0 */
+    staleWhileRevalidate?: number;
+    /** Maximum number of cached queries. Least recently used queries are evicted first. Default: 100 */
+    maxEntries?: number;
+    /** Maximum size of the cache in characters of JSON (about bytes). Default: 2097152 (2MB) */
+    maxSize?: number;
+};
+
+export type CacheInfo = {
+    /** Number of cached queries */
+    entries: number;
+    /** Size of the cache in characters of JSON */
+    size: number;
+    maxEntries: number;
+    maxSize: number;
+    /** Cached queries, most recently used first. */
+    queries: {
+        /** Request name. ex) 'get-records' */
+        url: string;
+        params: Record<string, any>;
+        size: number;
+        /** Timestamp of the last use */
+        accessed: number;
+    }[];
+};
+
+/** Matches cached queries to invalidate. Queries matching any of the given values are invalidated. */
+export type CacheQuery = {
+    /** Request name. ex) 'get-records' */
+    url?: string;
+    table?: string;
+    /** Record ID or unique ID of the referenced record. */
+    reference?: string;
+    /** Index name */
+    index?: string;
+    record_id?: string | string[];
+};
+
+export type RetryPolicy = {
+    /** Maximum number of attempts including the first request. Default: 3 */
+    maxAttempts?: number;
+    /** Delay before the first retry in milliseconds. Default: 300 */
+    baseDelay?: number;
+    /** Maximum delay between retries in milliseconds. Default: 5000 */
+    maxDelay?: number;
+    /** Delay multiplier per retry. Default: 2 */
+    factor?: number;
+    /** Randomizes the delay between 0 and the computed delay. Default: true */
+    jitter?: boolean;
+    /** HTTP status codes or SkapiError codes to retry on. Default: [429, 500, 502, 503, 504, 'NETWORK_ERROR', 'TIMEOUT'] */
+    retryOn?: (number | string)[];
+    /** HTTP methods to retry. Default: ['GET'] */
+    methods?: string[];
+    /** Request names that are retried regardless of the method. Default: read only requests. ex) 'get-records' */
+    endpoints?: string[];
+};
+
 export type DatabaseResponse<T> = {
     list: T[];
-    startKey: string;
+    /** Start key of the next page. 'end' on the last page. */
+    startKey: StartKey | 'end';
     endOfList: boolean;
     startKeyHistory: string[];
+    /** Cursor of the next page. null on the last page. Pass it to FetchOptions.cursor to fetch the page. */
+    nextCursor?: string | null;
+    /** Cursor of the previous page. null on the first page, or when the previous pages are unknown. */
+    prevCursor?: string | null;
 }
 
+/** Record data shape of each table name. ex) { posts: { title: string; body: string; } } */
+export type TableMap = { [table: string]: Record<string, any> };
+
+// query with the table name narrowed to N
+type TableQuery<N extends string, Q extends { table?: any; }> = Omit<Q, 'table'> & {
+    table: N | (Omit<Exclude<Q['table'], string | undefined>, 'name'> & { name: N; });
+};
+
+/** Skapi instance typed with the record data shape of each table. See Skapi.createClient() */
+export type SkapiClient<Tables extends TableMap> = Omit<Skapi, 'getRecords' | 'postRecord' | 'getFeed'> & {
+    getRecords<N extends keyof Tables & string>(query: TableQuery<N, GetRecordQuery>, fetchOptions?: FetchOptions): Promise<DatabaseResponse<RecordData<Tables[N]>>>;
+    getRecords<T = Tables[keyof Tables]>(query: GetRecordQuery, fetchOptions?: FetchOptions): Promise<DatabaseResponse<RecordData<T>>>;
+    postRecord<N extends keyof Tables & string>(
+        form: Form<Tables[N]> | null | undefined,
+        config: TableQuery<N, PostRecordConfig>,
+        files?: { name: string, file: File; }[]
+    ): Promise<RecordData<Tables[N]>>;
+    getFeed(params?: { access_group?: number; }, fetchOptions?: FetchOptions): Promise<DatabaseResponse<RecordData<Tables[keyof Tables]>>>;
+};
+
 export type FileInfo = {
     url: string;
     filename: string;
@@ -383,4 +620,118 @@ export type FileInfo = {
     uploader: string;
     uploaded: number;
     fileKey: string;
-}
\ No newline at end of file
+}
+
+export type StorageAdapter = {
+    /** Returns null when the key does not exist. */
+    get(key: string): string | null | Promise<string | null>;
+    set(key: string, value: string): void | Promise<void>;
+    remove(key: string): void | Promise<void>;
+}
+
+export type EndpointMaps = {
+    /** Admin gateway endpoints. Same structure as admin-<version>.json. (ex. { service_public: 'https://.../', userpool_id: '...', ... }) */
+    admin: Record<string, any>;
+    /** Record gateway endpoints. Same structure as record-<version>.json. (ex. { get_public: 'https://.../', websocket_private: 'wss://...', ... }) */
+    record: Record<string, any>;
+};
+
+export type RequestEvent = {
+    /** Request url or method name. ex) 'get-records' */
+    url: string;
+    /** Full endpoint url the request is sent to */
+    endpoint: string;
+    method: string;
+};
+
+export type SkapiEvents = {
+    /** User has logged in. null when logged out. */
+    login: UserProfile | null;
+    /** User profile has changed. null when logged out. */
+    userUpdate: UserProfile | null;
+    batchProcess: {
+        batchToProcess: number;
+        itemsToProcess: number;
+        completed: any[];
+    };
+    requestStart: RequestEvent;
+    requestEnd: RequestEvent & { result: any; };
+    requestError: RequestEvent & { error: any; };
+    /** Session tokens has been refreshed. */
+    tokenRefresh: { session: Record<string, any>; };
+    /** User has logged out. global is true when all sessions of the user has been logged out. */
+    logout: { global: boolean; };
+    /** Service connection is ready. */
+    connectionReady: Connection;
+    /** Constructor and connection errors. */
+    error: SkapiError;
+    realtimeOpen: { message: string; };
+    realtimeClose: { message: string; intentional: boolean; };
+    realtimeReconnect: { message: string; attempt: number; };
+    uploadProgress: Parameters<ProgressCallback>[0];
+    /** Gateway has been taken out of rotation, or has recovered. */
+    gatewayHealth: GatewayHealth;
+    /** Mutating call has been queued in offline mode. */
+    offlineQueued: OfflineJobInfo & { size: number; }; // size: number of calls in the queue
+    /** Queued call has been replayed. */
+    offlineReplay: OfflineJobInfo & { result: any; };
+    /**
+     * Queued call has been rejected on replay and removed from the queue. conflict is true when the target has changed while offline.
+     * failed is the files that could not be uploaded. Only for uploadFiles()
+     */
+    offlineFailed: OfflineJobInfo & { error: any; conflict: boolean; failed?: File[]; };
+    /** Item of postRecords() has been posted or has failed. index is of the items. */
+    postRecordsProgress: { index: number; total: number; completed: number; failed: number; error?: SkapiError; };
+};
+
+export type OfflineJobInfo = {
+    id: string;
+    method: 'postRecord' | 'deleteRecords' | 'uploadFiles';
+    /** Timestamp of when the call was queued. */
+    queued_at: number;
+};
+
+export type GatewayHealth = {
+    /** Gateway base url */
+    gateway: string;
+    healthy: boolean;
+    /** Number of consecutive failures */
+    failures: number;
+    /** Timestamp until the gateway is out of rotation. null when healthy. */
+    unhealthyUntil: number | null;
+};
+
+export type SkapiEventHandler<K extends keyof SkapiEvents> = (payload: SkapiEvents[K]) => void;
+
+export type RequestContext = {
+    /** Request url or method name. ex) 'get-records' */
+    url: string;
+    /** Full endpoint url the request is sent to. Includes query string on GET requests. */
+    endpoint: string;
+    method: string;
+    headers: Record<string, any>;
+    /** Serialized request body. null on GET requests. */
+    body: any;
+    responseType?: 'json' | 'blob' | 'text' | 'arrayBuffer' | 'formData' | 'document';
+    /** true when request is sent with user's token */
+    auth: boolean;
+    progress?: ProgressCallback;
+    signal?: AbortSignal;
+    /** Timeout of each attempt in milliseconds. 0 for no timeout. */
+    timeout?: number;
+    /** Resolved retry policy of the request. false when retry is disabled. */
+    retry?: Required<RetryPolicy> | false;
+    /** Set after the response is received. */
+    response?: {
+        status: number;
+        headers: { get: (name: string) => string | null; };
+    };
+};
+
+/**
+ * Runs around every request() call.
+ * Call next() to proceed to the next middleware (finally the network request) and return its result.
+ * Runs once per request. Retries and gateway failover happen inside next(). ctx.response is of the last attempt.
+ * ex) skapi.use(async (ctx, next) => { ctx.headers['X-Trace-Id'] = traceId(); return next(); });
+ */
+export type Middleware = (ctx: RequestContext, next: () => Promise<any>) => Promise<any>;
@@ -1,14 +1,47 @@
+import type { RecordData, SkapiErrorCode, ValidationIssue } from '../Types';
+
+type SkapiErrorOptions = {
+    name?: string;
+    code?: SkapiErrorCode;
+    cause?: Error;
+    /** HTTP status of the response */
+    status?: number;
+    /** Endpoint url the request was sent to */
+    endpoint?: string;
+    /** Request id of the response */
+    requestId?: string;
+    retryable?: boolean;
+    /** Id of the message in the message catalog. ex) 'required' */
+    messageId?: string;
+    /** Values to fill in the message template. ex) { param: 'email' } */
+    messageParams?: Record<string, any>;
+    /** Every invalid field of the parameters */
+    details?: ValidationIssue[];
+};
+
+// errors that may succeed when the same request is sent again
+const RETRYABLE_CODES = ['NETWORK_ERROR', 'TIMEOUT', 'TOO_MANY_REQUESTS', 'REQUEST_EXCEED'];
+
 export default class SkapiError extends Error {
-    code: string | number;
+    code: SkapiErrorCode | number;
     cause: Error;
+    /** HTTP status of the response. undefined when the request did not get a response. */
+    status?: number;
+    /** Endpoint url the request was sent to. */
+    endpoint?: string;
+    /** Request id of the response. Useful when reporting issues. */
+    requestId?: string;
+    /** true when sending the same request again may succeed. */
+    retryable: boolean;
+    /** Id of the message in the message catalog. Used for translation. */
+    messageId?: string;
+    messageParams?: Record<string, any>;
+    /** Every invalid field when the parameters failed validation. The message is of the first field. */
+    details?: ValidationIssue[];
 
     constructor(
         error: any,
-        options?: {
-            name?: string;
-            code?: string;
-            cause?: Error;
-        }) {
+        options?: SkapiErrorOptions) {
 
         if (Array.isArray(error) && error.length <= 2) {
             // "code: msg".split(':') => ["code", "msg"]
@@ -46,16 +79,130 @@ export default class SkapiError extends Error {
             else if (error instanceof Error) {
                 this.cause = error;
                 this.name = error.name;
-                if (error.hasOwnProperty('code')) {
-                    this.code = (error as any).code;
-                }
+                this.code = (error as any).code || options?.code || 'ERROR';
             }
 
             else if (typeof error === 'object' && error?.code && error?.message) {
                 this.name = options?.name || "SKAPI";
-                this.code = options?.code || 'ERROR';
+                this.code = options?.code || error.code;
                 this.cause = error?.cause;
             }
+
+            else {
+                this.name = options?.name || "SKAPI";
+                this.code = options?.code || 'ERROR';
+            }
+        }
+
+        this.status = options?.status ?? (error instanceof SkapiError ? error.status : undefined);
+        this.endpoint = options?.endpoint ?? (error instanceof SkapiError ? error.endpoint : undefined);
+        this.requestId = options?.requestId ?? (error instanceof SkapiError ? error.requestId : undefined);
+        this.messageId = options?.messageId ?? (error instanceof SkapiError ? error.messageId : undefined);
+        this.messageParams = options?.messageParams ?? (error instanceof SkapiError ? error.messageParams : undefined);
+        this.details = options?.details ?? (error instanceof SkapiError ? error.details : undefined);
+        this.retryable = typeof options?.retryable === 'boolean' ? options.retryable : RETRYABLE_CODES.includes(this.code as string) || this.status >= 500;
+    }
+}
+
+/** Failed authentication. ex) wrong password, expired session */
+export class SkapiAuthError extends SkapiError { }
+
+/** Invalid parameters. Fix the request before sending again. */
+export class SkapiValidationError extends SkapiError { }
+
+/** Request did not get a valid response. ex) offline, timeout, server error */
+export class SkapiNetworkError extends SkapiError {
+    /** false when the request never left. true when the server may have processed it before the response was lost. */
+    requestSent?: boolean;
+}
+
+/** Not allowed to access the resource. */
+export class SkapiPermissionError extends SkapiError { }
+
+/** Record has been changed since the expected update. */
+export class SkapiConflictError extends SkapiError {
+    /** Current server copy of the record. undefined when the record could not be fetched. */
+    current?: RecordData;
+}
+
+const AUTH_CODES = [
+    'INCORRECT_USERNAME_OR_PASSWORD',
+    'USER_IS_DISABLED',
+    'SIGNUP_CONFIRMATION_NEEDED',
+    'NotAuthorizedException',
+    'UserNotFoundException',
+    'UserNotConfirmedException'
+];
+const VALIDATION_CODES = ['INVALID_PARAMETER'];
+const NETWORK_CODES = ['NETWORK_ERROR', 'TIMEOUT', 'TOO_MANY_REQUESTS', 'INVALID_CORS'];
+const PERMISSION_CODES = ['PERMISSION_DENIED', 'SERVICE_DISABLED'];
+const CONFLICT_CODES = ['CONFLICT'];
+
+function errorClass(code: any, status?: number): typeof SkapiError {
+    if (AUTH_CODES.includes(code) || status === 401) {
+        return SkapiAuthError;
+    }
+    if (VALIDATION_CODES.includes(code)) {
+        return SkapiValidationError;
+    }
+    if (PERMISSION_CODES.includes(code) || status === 403) {
+        return SkapiPermissionError;
+    }
+    if (CONFLICT_CODES.includes(code) || status === 409) {
+        return SkapiConflictError;
+    }
+    if (NETWORK_CODES.includes(code) || status >= 500) {
+        return SkapiNetworkError;
+    }
+    return SkapiError;
+}
+
+/**
+ * Converts any error to SkapiError of the matching subclass.
+ * Options fill in the values that the error does not have.
+ */
+export function toSkapiError(err: any, options?: SkapiErrorOptions): SkapiError {
+    let base = err instanceof SkapiError ? err : new SkapiError(err, options);
+    let ErrorClass = errorClass(base.code, base.status ?? options?.status);
+
+    if (base.constructor === ErrorClass) {
+        for (let k of ['status', 'endpoint', 'requestId']) {
+            if (base[k] === undefined && options?.[k] !== undefined) {
+                base[k] = options[k];
+            }
+        }
+        if (options?.name) {
+            base.name = options.name;
         }
+        return base;
+    }
+
+    let converted = new ErrorClass(base.message, {
+        name: options?.name || base.name,
+        code: base.code as SkapiErrorCode,
+        cause: base.cause,
+        status: base.status ?? options?.status,
+        endpoint: base.endpoint ?? options?.endpoint,
+        requestId: base.requestId ?? options?.requestId,
+        retryable: base.retryable,
+        messageId: base.messageId,
+        messageParams: base.messageParams,
+        details: base.details
+    });
+    converted.stack = base.stack;
+    return converted;
+}
+
+/**
+ * Returns true when the error is SkapiError. When code is given, also checks the error code.
+ * ex) if (isSkapiError(err, 'TIMEOUT')) retry();
+ */
+export function isSkapiError(err: any, code?: SkapiErrorCode | SkapiErrorCode[]): err is SkapiError {
+    if (!(err instanceof SkapiError)) {
+        return false;
+    }
+    if (code === undefined) {
+        return true;
     }
-}
\ No newline at end of file
+    return (Array.isArray(code) ? code : [code]).includes(err.code as SkapiErrorCode);
+}
@@ -19,15 +19,39 @@ import {
     RTCConnectorParams,
     RTCConnector,
     DelRecordQuery,
+    StorageAdapter,
+    EndpointMaps,
+    SkapiEvents,
+    SkapiEventHandler,
+    Middleware,
+    RetryPolicy,
+    GatewayHealth,
+    OfflineJobInfo,
+    CachePolicy,
+    CacheQuery,
+    CacheInfo,
+    MessageCatalog,
+    TableMap,
+    SkapiClient,
+    TableSchema,
+    PageMethod,
+    IterateOptions,
+    PostRecordsItem,
+    PostRecordsResult,
+    RecordPatch,
 } from '../Types';
 import {
-    CognitoUserPool
+    CognitoUserPool,
+    CognitoUser
 } from 'amazon-cognito-identity-js';
-import SkapiError from './error';
+import Queuecumber from 'queuecumber';
+import SkapiError, { toSkapiError } from './error';
 import validator from '../utils/validator';
 import {
     getRecords,
     postRecord,
+    postRecords,
+    patchRecord,
     deleteRecords,
     getTables,
     getIndexes,
@@ -40,6 +64,11 @@ import {
     deleteFiles,
     getUniqueId
 } from '../methods/database';
+import {
+    replayOfflineQueue,
+    getOfflineQueue,
+    clearOfflineQueue
+} from '../methods/offline';
 import {
     connectRealtime,
     joinRealtime,
@@ -63,7 +92,8 @@ import {
     getFormResponse,
     formHandler,
     uploadFiles,
-    terminatePendingRequests
+    terminatePendingRequests,
+    normalizeRetryPolicy
 } from '../utils/network';
 import {
     subscribe,
@@ -133,6 +163,12 @@ import {
 import {
     spellcast, dopamine, getspell
 } from '../methods/vivian';
+import { registerSchema, checkSchema } from '../methods/schema';
+import { iterate } from '../methods/pagination';
+import { resolveStorage, WebStorage, MemoryStorage, IndexedDBStorage } from '../utils/storage';
+import { localizeError, registerMessages } from '../utils/messages';
+import { normalizeCachePolicy, invalidateCache, getCacheInfo, clearCache, persistCache, enforceCacheBudget } from '../utils/cache';
+import { isBrowser, blobToDataURL } from '../utils/runtime';
 
 export default class Skapi {
     // current version
@@ -142,6 +178,7 @@ export default class Skapi {
     session: Record<string, any> | null = null;
     connection: Connection | null = null;
     private __my_unique_ids: { [rec_id: string]: string } = {};
+    private __storage: StorageAdapter;
     private userPool: CognitoUserPool | null = null;
     private __socket: Promise<WebSocket> | null = null;
     private __mediaStream: MediaStream = null;
@@ -168,11 +205,56 @@ export default class Skapi {
             [hashedParams: string]: string[];
         };
     } = {};
+    /** Request params, last use and size of cached queries. Used for invalidation and LRU eviction */
+    private __cacheMeta: {
+        [url: string]: {
+            [hashedParams: string]: { params: Record<string, any>; accessed: number; size: number; };
+        };
+    } = {};
+
+    /** Responses kept by the cache policy */
+    private __queryCache: {
+        [url: string]: {
+            [cacheKey: string]: { result: any; stored: number; hashedParams: string; };
+        };
+    } = {};
     private __request_signup_confirmation: string | null = null;
     private __private_access_key: {
         [record_id: string]: string;
     } = {}
 
+    // request queue and states. kept per instance so multiple services can run side by side
+    private __queue: Queuecumber | null = null;
+    private __pendingRequest: Record<string, Promise<any>> = {};
+    private __pendPromise: Record<string, Promise<any> | null> = {};
+    // counters for gateway round-robin
+    private __privateCounter_admin = 0;
+    private __publicCounter_admin = 0;
+    private __privateCounter_record = 0;
+    private __publicCounter_record = 0;
+    // gateway health for failover
+    private __gatewayHealth: { [gateway: string]: { failures: number; unhealthyUntil: number; } } = {};
+    private __gatewayTwins: { [gateway: string]: string } = {};
+
+    // cognito user of current session
+    private __cognitoUser: CognitoUser | null = null;
+
+    // realtime states
+    private __current_socket_room: string;
+    private __keepAliveInterval: { terminate: () => void; onmessage?: any } | null = null;
+    private __closedByIntention = true;
+    private __reconnectAttempts = 0;
+    private __visibilitychange: () => void = null;
+
+    // webrtc states
+    private __peerConnection: { [sender: string]: RTCPeerConnection } = {};
+    private __dataChannel: { [sender: string]: { [label: string]: RTCDataChannel } } = {};
+    private __caller_ringing: { [recipient: string]: (v: any) => void } = {};
+    private __receiver_ringing: { [caller: string]: string } = {};
+    private __rtcEvents: { [sender: string]: (v: any) => void } = {};
+    private __rtcCandidatesBuffer: { [sender: string]: any[] } = {};
+    private __rtcSdpOfferBuffer: { [sender: string]: any[] } = {};
+
     // true when session is stored successfully to session storage
     // this property prevents duplicate stores when window closes on some device
     private __class_properties_has_been_cached = false;
@@ -222,6 +304,7 @@ export default class Skapi {
                 listener(user);
             }
         }
+        this._emit('userUpdate', user);
     }
 
     private _runOnLoginListeners(user: UserProfile | null) {
@@ -230,6 +313,19 @@ export default class Skapi {
                 listener(user);
             }
         }
+        this._emit('login', user);
+    }
+
+    private _onErrorListeners: ((err: SkapiError) => void)[] = [];
+
+    get onError(): ((err: SkapiError) => void)[] {
+        return this._onErrorListeners;
+    }
+
+    set onError(listener: (err: SkapiError) => void) {
+        if (typeof listener === 'function') {
+            this._onErrorListeners.push(listener);
+        }
     }
 
     private admin_endpoint: Promise<Record<string, any>>;
@@ -259,6 +355,185 @@ export default class Skapi {
         }
     }
 
+    private __eventHandlers: { [K in keyof SkapiEvents]?: SkapiEventHandler<K>[] } = {};
+
+    /**
+     * Registers event handler. Returns a function that removes the handler.
+     * ex) skapi.on('requestStart', e => showSpinner());
+     */
+    on<K extends keyof SkapiEvents>(event: K, handler: SkapiEventHandler<K>): () => void {
+        if (typeof handler !== 'function') {
+            throw new SkapiError('"handler" should be type: <function>.', { code: 'INVALID_PARAMETER' });
+        }
+
+        if (!this.__eventHandlers[event]) {
+            this.__eventHandlers[event] = [];
+        }
+
+        (this.__eventHandlers[event] as SkapiEventHandler<K>[]).push(handler);
+        return () => this.off(event, handler);
+    }
+
+    /**
+     * Removes event handler.
+     * Removes all handlers of the event when handler is not given, and all handlers of every event when event is not given.
+     */
+    off<K extends keyof SkapiEvents>(event?: K, handler?: SkapiEventHandler<K>): void {
+        if (!event) {
+            this.__eventHandlers = {};
+            return;
+        }
+
+        if (!handler) {
+            delete this.__eventHandlers[event];
+            return;
+        }
+
+        let handlers = this.__eventHandlers[event] as SkapiEventHandler<K>[];
+        if (handlers) {
+            this.__eventHandlers[event] = handlers.filter(h => h !== handler) as any;
+        }
+    }
+
+    /** Returns health of the gateways that has been used. */
+    getGatewayHealth(): GatewayHealth[] {
+        let now = Date.now();
+        return Object.keys(this.__gatewayHealth).map(gateway => {
+            let health = this.__gatewayHealth[gateway];
+            let healthy = health.unhealthyUntil <= now;
+            return {
+                gateway,
+                healthy,
+                failures: health.failures,
+                unhealthyUntil: healthy ? null : health.unhealthyUntil
+            };
+        });
+    }
+
+    /** Sets the language of the error messages. null follows connection.locale. */
+    setLocale(locale: string | null): void {
+        if (locale !== null && typeof locale !== 'string') {
+            throw this._reportError(new SkapiError('"locale" should be type: <string | null>.', { code: 'INVALID_PARAMETER' }));
+        }
+        this.__locale = locale;
+    }
+
+    /**
+     * Adds or overrides error messages of the locale.
+     * ex) skapi.registerMessages('ko', { 'INVALID_PARAMETER.required.email': '이메일을 입력하세요.' });
+     */
+    registerMessages(locale: string, messages: MessageCatalog): void {
+        registerMessages.bind(this)(locale, messages);
+    }
+
+    /**
+     * Removes cached responses of queries that matches the given table, reference, index or record.
+     * Removes every cached response when query is not given. Returns number of invalidated queries.
+     * ex) skapi.invalidate({ table: 'posts' });
+     */
+    invalidate(query?: CacheQuery): number {
+        return invalidateCache.bind(this)(query);
+    }
+
+    /** Returns size and budget of the cache, and the cached queries. */
+    getCacheInfo(): CacheInfo {
+        return getCacheInfo.bind(this)();
+    }
+
+    /** Removes every cached response. fetchMore starts over from the first page. */
+    clearCache(): void {
+        clearCache.bind(this)();
+    }
+
+    /** Replays calls queued in offline mode. Resolves when the queue is empty or the network is still unreachable. */
+    replayOfflineQueue(): Promise<void> {
+        return replayOfflineQueue.bind(this)();
+    }
+
+    /** Returns calls queued in offline mode, in replay order. */
+    getOfflineQueue(): Promise<OfflineJobInfo[]> {
+        return getOfflineQueue.bind(this)();
+    }
+
+    /** Discards every call queued in offline mode. */
+    clearOfflineQueue(): Promise<void> {
+        return clearOfflineQueue.bind(this)();
+    }
+
+    /**
+     * Returns this instance typed with the record data shape of each table.
+     * Type only. Data is not validated at runtime.
+     * ex) const client = skapi.createClient<{ posts: Post }>();
+     *     client.getRecords({ table: 'posts' }); // Promise<DatabaseResponse<RecordData<Post>>>
+     */
+    createClient<Tables extends TableMap>(): SkapiClient<Tables> {
+        return this as SkapiClient<Tables>;
+    }
+
+    /**
+     * Iterates over the items of the paginated method, fetching the next page as the iteration continues.
+     * Yields pages instead when options.pages is true.
+     * ex) for await (let record of skapi.iterate(skapi.getRecords, { table: 'posts' }, { maxItems: 100 })) { ... }
+     */
+    iterate<Q, T>(method: PageMethod<Q, T>, query: Q, options: IterateOptions & { pages: true; }): AsyncIterable<DatabaseResponse<T>>;
+    iterate<Q, T>(method: PageMethod<Q, T>, query?: Q, options?: IterateOptions): AsyncIterable<T>;
+    iterate<Q, T>(method: PageMethod<Q, T>, query?: Q, options?: IterateOptions): AsyncIterable<T | DatabaseResponse<T>> {
+        return iterate.bind(this)(method, query, options);
+    }
+
+    /**
+     * Registers the schema of the table. postRecord() validates data, index and tags against it before sending.
+     * null removes the schema.
+     * ex) skapi.registerSchema('posts', { data: { type: 'object', required: ['title'], properties: { title: { type: 'string', maxLength: 100 } } } });
+     */
+    registerSchema(table: string, schema: TableSchema | null): void {
+        registerSchema.bind(this)(table, schema);
+    }
+
+    /** Validates the record against the registered schema of the table, locally and on the server where supported. */
+    @formHandler()
+    checkSchema(params: {
+        table: string;
+        data?: Record<string, any>;
+        index?: { name: string; value: any; };
+        tags?: string | string[];
+    }): Promise<any> {
+        return checkSchema.bind(this)(params);
+    }
+
+    private __middlewares: Middleware[] = [];
+
+    /**
+     * Registers request middleware. Returns a function that removes the middleware.
+     * Middlewares run in registered order around every network request.
+     */
+    use(middleware: Middleware): () => void {
+        if (typeof middleware !== 'function') {
+            throw new SkapiError('"middleware" should be type: <function>.', { code: 'INVALID_PARAMETER' });
+        }
+
+        this.__middlewares.push(middleware);
+        return () => {
+            this.__middlewares = this.__middlewares.filter(m => m !== middleware);
+        };
+    }
+
+    private _emit<K extends keyof SkapiEvents>(event: K, payload: SkapiEvents[K]) {
+        let handlers = this.__eventHandlers[event] as SkapiEventHandler<K>[];
+        if (!handlers) {
+            return;
+        }
+
+        for (let handler of handlers.slice()) {
+            try {
+                handler(payload);
+            } catch (err) {
+                // handler errors should not break the sdk
+                this.log('event handler error:' + event, err);
+            }
+        }
+    }
+
     validate = {
         userId(val: string) {
             try {
@@ -331,11 +606,32 @@ export default class Skapi {
     private __network_logs = false;
     private __endpoint_version = 'v1';
     private __public_identifier = '';
+    private __silent = false;
+    private __retryPolicy: Required<RetryPolicy> | false;
+    private __timeout = 0;
+    private __cachePolicy: Required<CachePolicy> = normalizeCachePolicy(false);
+    private __locale: string | null = null;
+    private __messages: { [locale: string]: MessageCatalog } = {};
+    private __schemas: { [table: string]: TableSchema } = {};
+
+    // offline write queue
+    private __offlineStorage: IndexedDBStorage | null = null;
+    private __offlineLock: Promise<any> = Promise.resolve();
+    private __offlineReplaying: Promise<void> | null = null;
 
     constructor(service: string, owner: string, options?: {
         autoLogin: boolean;
         requestBatchSize?: number; // default 30. number of requests to be handled in a batch
+        storage?: StorageAdapter | 'memory' | 'localStorage' | 'sessionStorage' | 'indexedDB'; // default 'sessionStorage'. where session data and caches are persisted
+        silent?: boolean; // default false. when true, never opens browser alert dialog on connection errors
+        retry?: RetryPolicy | false; // default retries read only requests up to 3 attempts. false disables retry
+        timeout?: number; // default 0 (no timeout). request timeout in milliseconds
+        locale?: string; // default connection.locale. language of the error messages. ex) 'ko', 'ja', 'es'
+        cache?: CachePolicy | false; // default no response caching. caches responses of read only requests, and limits the cache size
+        offline?: boolean; // default false. when true, postRecord, deleteRecords, uploadFiles are queued in IndexedDB while offline and replayed when back online
+        endpoints?: string | EndpointMaps; // base url hosting admin-<version>.json, record-<version>.json or the endpoint maps itself. default fetches from skapi cdn
         eventListener?: {
+            onError?: (err: SkapiError) => void; // receives constructor and connection errors. browser alert dialog is not opened when set
             onLogin?: (user: UserProfile | null) => void;
             onUserUpdate?: (user: UserProfile | null) => void;
             onBatchProcess?: (process: {
@@ -345,38 +641,76 @@ export default class Skapi {
             }) => void;
         },
     }, __etc?: any) {
-        if (!sessionStorage) {
-            throw new SkapiError('Web browser API is not available.', { code: 'NOT_SUPPORTED' });
+        // error listeners should be ready before any validation
+        this.__silent = !!options?.silent;
+
+        if (options?.eventListener && typeof options.eventListener === 'object') {
+            if (options.eventListener?.onError && typeof options.eventListener.onError === 'function') {
+                this.onError = options.eventListener.onError;
+            }
+
+            if (options.eventListener?.onLogin && typeof options.eventListener.onLogin === 'function') {
+                this.onLogin = options.eventListener.onLogin;
+            }
+
+            if (options.eventListener?.onUserUpdate && typeof options.eventListener.onUserUpdate === 'function') {
+                this.onUserUpdate = options.eventListener.onUserUpdate;
+            }
+
+            if (options.eventListener?.onBatchProcess && typeof options.eventListener.onBatchProcess === 'function') {
+                this.onBatchProcess = options.eventListener.onBatchProcess;
+            }
         }
-        sessionStorage.setItem('__skapi_kiss', 'kiss');
-        if (sessionStorage.getItem('__skapi_kiss') !== 'kiss') {
-            alert('Session storage is disabled. Please enable session storage.');
-            throw new SkapiError('Session storage is disabled. Please enable session storage.', { code: 'SESSION_STORAGE_DISABLED' });
+
+        if (options?.storage) {
+            this.__storage = resolveStorage(options.storage);
         }
+        else if (!isBrowser) {
+            // node.js, server side rendering
+            this.__storage = new MemoryStorage();
+        }
+        else {
+            if (!sessionStorage) {
+                throw this._reportError(new SkapiError('Web browser API is not available.', { code: 'NOT_SUPPORTED' }));
+            }
+            sessionStorage.setItem('__skapi_kiss', 'kiss');
+            if (sessionStorage.getItem('__skapi_kiss') !== 'kiss') {
+                throw this._reportError(
+                    new SkapiError('Session storage is disabled. Please enable session storage.', { code: 'SESSION_STORAGE_DISABLED' }),
+                    'Session storage is disabled. Please enable session storage.'
+                );
+            }
 
-        sessionStorage.removeItem('__skapi_kiss');
+            sessionStorage.removeItem('__skapi_kiss');
+            this.__storage = new WebStorage(sessionStorage);
+        }
 
         if (typeof service !== 'string' || typeof owner !== 'string') {
-            alert("Service ID or Owner ID is invalid.");
-            throw new SkapiError('"service" and "owner" should be type <string>.', { code: 'INVALID_PARAMETER' });
+            throw this._reportError(
+                new SkapiError('"service" and "owner" should be type <string>.', { code: 'INVALID_PARAMETER' }),
+                'Service ID or Owner ID is invalid.'
+            );
         }
 
         if (!service || !owner) {
-            alert('Service ID and Owner ID are required.');
-            throw new SkapiError('"service" and "owner" are required.', { code: 'INVALID_PARAMETER' });
+            throw this._reportError(
+                new SkapiError('"service" and "owner" are required.', { code: 'INVALID_PARAMETER' }),
+                'Service ID and Owner ID are required.'
+            );
         }
 
         if (service.toLowerCase() === 'service_id' || owner.toLowerCase() === 'owner_id') {
-            alert('Replace "service_id" and "owner_id" with your actual Service ID and Owner ID.');
-            throw new SkapiError('"service" and "owner" are required.', { code: 'INVALID_PARAMETER' });
+            throw this._reportError(
+                new SkapiError('"service" and "owner" are required.', { code: 'INVALID_PARAMETER' }),
+                'Replace "service_id" and "owner_id" with your actual Service ID and Owner ID.'
+            );
         }
 
         if (owner !== this.host) {
             try {
                 validator.UserId(owner, '"owner"');
             } catch (err: any) {
-                alert("Service ID or Owner ID is invalid.");
-                throw err;
+                throw this._reportError(err, 'Service ID or Owner ID is invalid.');
             }
         }
 
@@ -397,17 +731,36 @@ export default class Skapi {
             }
         }
 
-        if (options?.eventListener && typeof options.eventListener === 'object') {
-            if (options.eventListener?.onLogin && typeof options.eventListener.onLogin === 'function') {
-                this.onLogin = options.eventListener.onLogin;
+        try {
+            this.__retryPolicy = normalizeRetryPolicy(options?.retry);
+        } catch (err: any) {
+            throw this._reportError(err);
+        }
+
+        if (options?.timeout !== undefined) {
+            if (typeof options.timeout !== 'number' || options.timeout < 0) {
+                throw this._reportError(new SkapiError('"timeout" should be a number of milliseconds >= 0.', { code: 'INVALID_PARAMETER' }));
             }
+            this.__timeout = options.timeout;
+        }
 
-            if (options.eventListener?.onUserUpdate && typeof options.eventListener.onUserUpdate === 'function') {
-                this.onUserUpdate = options.eventListener.onUserUpdate;
+        if (options?.locale !== undefined) {
+            this.setLocale(options.locale);
+        }
+
+        if (options?.cache !== undefined) {
+            try {
+                this.__cachePolicy = normalizeCachePolicy(options.cache);
+            } catch (err: any) {
+                throw this._reportError(err);
             }
+        }
 
-            if (options.eventListener?.onBatchProcess && typeof options.eventListener.onBatchProcess === 'function') {
-                this.onBatchProcess = options.eventListener.onBatchProcess;
+        if (options?.offline) {
+            try {
+                this.__offlineStorage = new IndexedDBStorage();
+            } catch (err: any) {
+                throw this._reportError(err);
             }
         }
 
@@ -419,65 +772,73 @@ export default class Skapi {
 
         this.__network_logs = !!__etc?.network_logs;
 
-        const cdn_domain = `https://${this.target_cdn}.cloudfront.net`; // don't change this
-        let sreg = service.substring(0, 4);
+        if (options?.endpoints) {
+            let endpoints = options.endpoints;
 
-        this.admin_endpoint = fetch(`${cdn_domain}/${sreg}/admin-${this.__endpoint_version}.json`)
-            .then(response => response.blob())
-            .then(blob => new Promise((resolve, reject) => {
-                const reader = new FileReader();
-                reader.onloadend = () => resolve(reader.result);
-                reader.onerror = reject;
-                reader.readAsDataURL(blob);
-            }))
-            .then(data => {
-                try {
-                    return typeof data === 'string' ? JSON.parse(atob(data.split(',')[1])) : null
-                }
-                catch (err) {
-                    throw new SkapiError('Service does not exist. Create your service from skapi.com', { code: 'NOT_EXISTS' });
-                }
-            });
-
-        this.record_endpoint = fetch(`${cdn_domain}/${sreg}/record-${this.__endpoint_version}.json`)
-            .then(response => response.blob())
-            .then(blob => new Promise((resolve, reject) => {
-                const reader = new FileReader();
-                reader.onloadend = () => resolve(reader.result);
-                reader.onerror = reject;
-                reader.readAsDataURL(blob);
-            }))
-            .then(data => {
-                try {
-                    return typeof data === 'string' ? JSON.parse(atob(data.split(',')[1])) : null
-                }
-                catch (err) {
-                    throw new SkapiError('Service does not exist. Create your service from skapi.com', { code: 'NOT_EXISTS' });
-                }
-            });
+            if (typeof endpoints === 'string') {
+                let baseUrl = endpoints.slice(-1) === '/' ? endpoints.slice(0, -1) : endpoints;
+                this.admin_endpoint = this._fetchEndpoint(`${baseUrl}/admin-${this.__endpoint_version}.json`);
+                this.record_endpoint = this._fetchEndpoint(`${baseUrl}/record-${this.__endpoint_version}.json`);
+            }
+            else if (
+                typeof endpoints === 'object' &&
+                endpoints.admin && typeof endpoints.admin === 'object' &&
+                endpoints.record && typeof endpoints.record === 'object'
+            ) {
+                this.admin_endpoint = Promise.resolve(endpoints.admin);
+                this.record_endpoint = Promise.resolve(endpoints.record);
+            }
+            else {
+                throw this._reportError(new SkapiError('"endpoints" should be type: <string | { admin: object; record: object; }>.', { code: 'INVALID_PARAMETER' }));
+            }
+        }
+        else {
+            const cdn_domain = `https://${this.target_cdn}.cloudfront.net`; // don't change this
+            let sreg = service.substring(0, 4);
 
-        if (!sessionStorage) {
-            alert('This browser is not supported.');
-            throw new Error(`This browser is not supported.`);
+            this.admin_endpoint = this._fetchEndpoint(`${cdn_domain}/${sreg}/admin-${this.__endpoint_version}.json`);
+            this.record_endpoint = this._fetchEndpoint(`${cdn_domain}/${sreg}/record-${this.__endpoint_version}.json`);
         }
 
-        const restore = JSON.parse(sessionStorage.getItem(`${service}#${owner}`) || 'null');
+        const restoring = (async () => {
+            const restore = JSON.parse(await this.__storage.get(`${service}#${owner}`) || 'null');
 
-        this.log('constructor:restore', restore);
+            this.log('constructor:restore', restore);
+
+            if (restore?.connection) {
+                // apply all data to class properties
+                for (let k in restore) {
+                    this[k] = restore[k];
+                }
 
-        if (restore?.connection) {
-            // apply all data to class properties
-            for (let k in restore) {
-                this[k] = restore[k];
+                if (!restore.__public_identifier) {
+                    this.__public_identifier = `${this.service}:${this.owner}:${generateRandom(16)}`;
+                }
+
+                // budget could have been changed since the cache was stored
+                enforceCacheBudget.bind(this)();
             }
 
-            if (!restore.__public_identifier) {
-                this.__public_identifier = `${this.service}:${this.owner}:${generateRandom(16)}`;
+            let uniqueids = await this.__storage.get(`${this.service}:uniqueids`);
+            if (uniqueids) {
+                try {
+                    this.__my_unique_ids = JSON.parse(uniqueids);
+                } catch (err) {
+                    this.__my_unique_ids = {};
+                }
             }
-        }
+
+            return restore;
+        })();
 
         this.__authConnection = (async (): Promise<void> => {
+            const restore = await restoring;
             const admin_endpoint = await this.admin_endpoint;
+            if (!admin_endpoint?.userpool_id || !admin_endpoint?.userpool_client) {
+                // endpoint map without user pool (ex. local stand-in server). authentication is not available
+                return;
+            }
+
             this.userPool = new CognitoUserPool({
                 UserPoolId: admin_endpoint.userpool_id,
                 ClientId: admin_endpoint.userpool_client
@@ -502,18 +863,10 @@ export default class Skapi {
             }
         })()
 
-        let uniqueids = sessionStorage.getItem(`${this.service}:uniqueids`);
-        if (uniqueids) {
-            try {
-                this.__my_unique_ids = JSON.parse(uniqueids);
-            } catch (err) {
-                this.__my_unique_ids = {};
-            }
-        }
-
         // connects to server
         this.__connection = (async (): Promise<Connection> => {
             let connection: Promise<Connection> = null;
+            const restore = await restoring;
             await this.record_endpoint;
 
             if (!restore?.connection) {
@@ -533,17 +886,20 @@ export default class Skapi {
                         '__startKeyHistory', // startKey key : {}
                         '__disabledAccount', // disabled account : null
                         '__cached_requests', // cached records : {}
+                        '__cacheMeta', // params of cached requests : {}
                         '__request_signup_confirmation', // for resend signup confirmation : null
                         '__public_identifier', // public identifier : ''
                         'connection', // service info : null
                     ];
 
                     if (this.connection) {
-                        for (let k of to_be_cached) {
-                            data[k] = this[k];
-                        }
-
-                        sessionStorage.setItem(`${service}#${owner}`, JSON.stringify(data));
+                        // caches are evicted when the storage quota is exceeded
+                        persistCache.bind(this)(`${service}#${owner}`, () => {
+                            for (let k of to_be_cached) {
+                                data[k] = this[k];
+                            }
+                            return JSON.stringify(data);
+                        });
                         this.__class_properties_has_been_cached = true;
                     }
                 };
@@ -551,15 +907,22 @@ export default class Skapi {
                 return (connection instanceof Promise) ? connection.then(() => exec()) : exec();
             };
 
-            // attach event to save session on close
-            addEventListener('beforeunload', () => {
-                this.closeRealtime();
-                storeClassProperties();
-            });
-            // for mobile
-            addEventListener("visibilitychange", () => {
-                storeClassProperties();
-            });
+            if (isBrowser) {
+                if (this.__offlineStorage) {
+                    addEventListener('online', () => {
+                        this.replayOfflineQueue().catch(err => this.log('offline replay error:', err));
+                    });
+                }
+                // attach event to save session on close
+                addEventListener('beforeunload', () => {
+                    this.closeRealtime();
+                    storeClassProperties();
+                });
+                // for mobile
+                addEventListener("visibilitychange", () => {
+                    storeClassProperties();
+                });
+            }
 
             await connection;
             await this.__authConnection;
@@ -567,9 +930,17 @@ export default class Skapi {
         })();
 
         this.__connection.then(conn => {
+            this._emit('connectionReady', conn);
+            if (this.__offlineStorage) {
+                // replay calls left from the previous session
+                this.replayOfflineQueue().catch(err => this.log('offline replay error:', err));
+            }
             if ((conn?.group || 0) < 3 || this.__network_logs) {
                 this.version();
             }
+        }).catch(err => {
+            // already reported by _reportError. prevents unhandled rejection
+            this.log('connection error:', err);
         });
     }
 
@@ -582,7 +953,7 @@ export default class Skapi {
     }> {
         let conn = await this.__connection;
         // get browser user-agent info
-        let ua = conn?.user_agent || navigator.userAgent;
+        let ua = conn?.user_agent || (typeof navigator !== 'undefined' ? navigator.userAgent : '');
         return {
             user_ip: conn.ip,
             user_agent: ua,
@@ -592,6 +963,41 @@ export default class Skapi {
         };
     }
 
+    private _fetchEndpoint(url: string): Promise<any> {
+        return fetch(url)
+            .then(response => response.blob())
+            .then(blob => blobToDataURL(blob))
+            .then(data => {
+                try {
+                    return typeof data === 'string' ? JSON.parse(atob(data.split(',')[1])) : null
+                }
+                catch (err) {
+                    throw new SkapiError('Service does not exist. Create your service from skapi.com', { code: 'NOT_EXISTS' });
+                }
+            });
+    }
+
+    private _reportError(err: any, alertMessage?: string): SkapiError {
+        // passes the error to onError listeners. returns the error to be thrown
+        err = localizeError.bind(this)(toSkapiError(err));
+
+        for (let listener of this._onErrorListeners) {
+            try {
+                listener(err);
+            } catch (e) { }
+        }
+
+        this._emit('error', err);
+
+        let handled = this._onErrorListeners.length > 0 || !!this.__eventHandlers.error?.length;
+        if (!handled && alertMessage && !this.__silent && isBrowser && typeof alert === 'function') {
+            // alert is only available on browsers
+            alert(alertMessage);
+        }
+
+        return err;
+    }
+
     private async _updateConnection(): Promise<Connection> {
         try {
             this.connection = await request.bind(this)('service', {
@@ -601,9 +1007,8 @@ export default class Skapi {
         }
         catch (err: any) {
             this.log('connection fail', err);
-            alert('Service is not available: ' + (err.message || err.toString()));
-
             this.connection = null;
+            this._reportError(err, 'Service is not available: ' + (err.message || err.toString()));
             throw err;
         }
         return this.connection;
@@ -634,7 +1039,7 @@ export default class Skapi {
     }
 
     @formHandler()
-    getFeed(params?: { access_group?: number; }, fetchOptions?: FetchOptions): Promise<DatabaseResponse<RecordData>> {
+    getFeed<T = Record<string, any>>(params?: { access_group?: number; }, fetchOptions?: FetchOptions): Promise<DatabaseResponse<RecordData<T>>> {
         return getFeed.bind(this)(params, fetchOptions);
     }
 
@@ -859,6 +1264,7 @@ export default class Skapi {
             dataType?: 'base64' | 'download' | 'endpoint' | 'blob' | 'text' | 'info'; // default 'download'
             expires?: number; // uses url that expires. this option does not use the cdn (slow). can be used for private files. (does not work on public files).
             progress?: ProgressCallback;
+            signal?: AbortSignal; // cancels the download when aborted
         }
     ): Promise<Blob | string | void | FileInfo> {
         return getFile.bind(this)(url, config);
@@ -871,15 +1277,15 @@ export default class Skapi {
         data?: any;
         /** requests are sync when true */
         sync?: boolean;
-    }, Response = { response: any; statusCode: number; url: string; }>(params: Params[] | Form<Params>, url?: string): Promise<Response | Response[]> {
-        return secureRequest.bind(this)(params, url);
+    }, Response = { response: any; statusCode: number; url: string; }>(params: Params[] | Form<Params>, url?: string, options?: { signal?: AbortSignal; }): Promise<Response | Response[]> {
+        return secureRequest.bind(this)(params, url, options);
     }
     @formHandler()
     getFormResponse(): Promise<any> {
         return getFormResponse.bind(this)();
     }
     @formHandler()
-    getRecords(query: GetRecordQuery, fetchOptions?: FetchOptions): Promise<DatabaseResponse<RecordData>> {
+    getRecords<T = Record<string, any>>(query: GetRecordQuery, fetchOptions?: FetchOptions): Promise<DatabaseResponse<RecordData<T>>> {
         return getRecords.bind(this)(query, fetchOptions);
     }
     @formHandler()
@@ -1099,6 +1505,8 @@ export default class Skapi {
         params: {
             record_id: string; // Record ID of a record to upload files to.
             progress?: ProgressCallback;
+            signal?: AbortSignal; // cancels remaining uploads when aborted
+            timeout?: number; // timeout of each file upload in milliseconds
         }
     ): Promise<{ completed: File[], failed: File[], bin_endpoints: string[] }> { return uploadFiles.bind(this)(fileList, params); }
     @formHandler()
@@ -1184,11 +1592,28 @@ export default class Skapi {
     @formHandler({ preventMultipleCalls: true })
     updateProfile(form: Form<UserAttributes>): Promise<UserProfile> { return updateProfile.bind(this)(form); }
     @formHandler()
-    postRecord(
-        form: Form<Record<string, any>> | null | undefined,
+    postRecord<T = Record<string, any>>(
+        form: Form<T> | null | undefined,
         config: PostRecordConfig,
         files?: { name: string, file: File }[]
-    ): Promise<RecordData> { return postRecord.bind(this)(form, config, files); }
+    ): Promise<RecordData<T>> { return postRecord.bind(this)(form, config, files); }
+    @formHandler()
+    postRecords<T = Record<string, any>>(
+        items: PostRecordsItem<T>[],
+        options?: {
+            /** Number of items posted at a time. Default: 5 */
+            concurrency?: number;
+            /** Skips the items not yet posted after the first failure. Default: false */
+            stopOnError?: boolean;
+        }
+    ): Promise<PostRecordsResult<T>> { return postRecords.bind(this)(items, options); }
+    /**
+     * Updates the named fields of the record. Keys can be dotted paths, and null deletes the key.
+     * Throws SkapiConflictError when the record is changed by someone else while patching.
+     * ex) skapi.patchRecord(record_id, { 'data.title': 'New title', 'data.draft': null, tags: { $append: ['edited'] } });
+     */
+    @formHandler()
+    patchRecord<T = Record<string, any>>(record_id: string, patch: RecordPatch): Promise<RecordData<T>> { return patchRecord.bind(this)(record_id, patch); }
     @formHandler()
     getSubscriptions(
         params: {
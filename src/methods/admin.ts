@@ -10,11 +10,11 @@ export async function blockAccount(form: Form<{
     owner?: string;
     service?: string;
 }>): Promise<'SUCCESS: The user has been blocked.'> {
-    let params = validator.Params(form, {
-        user_id: (v: string) => {
+    let params: Record<string, any> = validator.Params(form, validator.schema.object({
+        user_id: validator.schema.custom((v: string) => {
             return validator.UserId(v, '"user_id"');
-        },
-    }, ['user_id']);
+        })
+    }));
 
     if (params?.service && params?.owner) {
         params = { service: params?.service, owner: params?.owner, block: params.user_id };
@@ -43,11 +43,11 @@ export async function unblockAccount(form: Form<{
     owner?: string;
     service?: string;
 }>): Promise<'SUCCESS: The user has been unblocked.'> {
-    let params = validator.Params(form, {
-        user_id: (v: string) => {
+    let params: Record<string, any> = validator.Params(form, validator.schema.object({
+        user_id: validator.schema.custom((v: string) => {
             return validator.UserId(v, '"user_id"');
-        },
-    }, ['user_id']);
+        })
+    }));
 
     if (params?.service && params?.owner) {
         params = { service: params?.service, owner: params?.owner, unblock: params.user_id };
@@ -75,11 +75,11 @@ export async function deleteAccount(form: Form<{
     owner?: string;
     service?: string;
 }>): Promise<'SUCCESS: Account has been deleted.'> {
-    let params = validator.Params(form, {
-        user_id: (v: string) => {
+    let params: Record<string, any> = validator.Params(form, validator.schema.object({
+        user_id: validator.schema.custom((v: string) => {
             return validator.UserId(v, '"user_id"');
-        },
-    }, ['user_id']);
+        })
+    }));
 
     if (params?.service && params?.owner) {
         params = { service: params?.service, owner: params?.owner, delete: params.user_id };
@@ -113,14 +113,14 @@ export async function inviteUser(
         }
     }
 ): Promise<'SUCCESS: Invitation has been sent.'> {
-    let paramRestrictions = {
-        email: (v: string) => validator.Email(v),
-        password: (v: string) => validator.Password(v),
-
-        name: 'string',
-        username: 'string',
-        gender: 'string',
-        address: (v: any) => {
+    let paramRestrictions = validator.schema.object({
+        email: validator.schema.custom((v: string) => validator.Email(v)),
+        password: validator.schema.custom((v: string) => validator.Password(v)).optional(),
+
+        name: validator.schema.string().nullable().optional(),
+        username: validator.schema.string().nullable().optional(),
+        gender: validator.schema.string().nullable().optional(),
+        address: validator.schema.custom((v: any) => {
             if (!v) return '';
 
             if (typeof v === 'string') {
@@ -132,22 +132,22 @@ export async function inviteUser(
             }
 
             return undefined;
-        },
-        birthdate: (v: string) => validator.Birthdate(v),
-        phone_number: (v: string) => validator.PhoneNumber(v),
-        picture: (v: string) => { if (v) return validator.Url(v); else return undefined },
-        profile: (v: string) => { if (v) return validator.Url(v); else return undefined },
-        website: (v: string) => { if (v) return validator.Url(v); else return undefined },
-        nickname: 'string',
-        misc: 'string',
-
-        email_public: ['boolean', () => false],
-        gender_public: ['boolean', () => false],
-        address_public: ['boolean', () => false],
-        birthdate_public: ['boolean', () => false],
-        phone_number_public: ['boolean', () => false],
-        openid_id: 'string',
-        access_group: (v: number) => {
+        }).optional(),
+        birthdate: validator.schema.custom((v: string) => validator.Birthdate(v)).optional(),
+        phone_number: validator.schema.custom((v: string) => validator.PhoneNumber(v)).optional(),
+        picture: validator.schema.custom((v: string) => { if (v) return validator.Url(v) as string; else return undefined }).optional(),
+        profile: validator.schema.custom((v: string) => { if (v) return validator.Url(v) as string; else return undefined }).optional(),
+        website: validator.schema.custom((v: string) => { if (v) return validator.Url(v) as string; else return undefined }).optional(),
+        nickname: validator.schema.string().nullable().optional(),
+        misc: validator.schema.string().nullable().optional(),
+
+        email_public: validator.schema.boolean().nullable().default(false),
+        gender_public: validator.schema.boolean().nullable().default(false),
+        address_public: validator.schema.boolean().nullable().default(false),
+        birthdate_public: validator.schema.boolean().nullable().default(false),
+        phone_number_public: validator.schema.boolean().nullable().default(false),
+        openid_id: validator.schema.string().nullable().optional(),
+        access_group: validator.schema.custom((v: number) => {
             // if string try to convert to number and if it's not a number, throw error
             try {
                 if (typeof v === 'string') {
@@ -161,17 +161,17 @@ export async function inviteUser(
                 throw new SkapiError('"access_group" is invalid. Should be type <number> of range 1~99', { code: 'INVALID_PARAMETER' });
             }
             return v;
-        }
-    };
+        }).optional()
+    });
 
-    let params = validator.Params(form, paramRestrictions, ['email']);
+    let params: Record<string, any> = validator.Params(form, paramRestrictions);
 
-    options = validator.Params(options, {
-        confirmation_url: (v: string) => {
+    options = validator.Params(options, validator.schema.object({
+        confirmation_url: validator.schema.custom((v: string) => {
             let value = v;
 
             if (typeof v === 'string') {
-                value = validator.Url(v);
+                value = validator.Url(v) as string;
             }
             else {
                 throw new SkapiError('"options.confirmation_url" should be type: <string>.', { code: 'INVALID_PARAMETER' });
@@ -182,8 +182,8 @@ export async function inviteUser(
             }
 
             return value;
-        },
-        email_subscription: (v: boolean) => {
+        }).optional(),
+        email_subscription: validator.schema.custom((v: boolean) => {
             if (typeof v !== 'boolean') {
                 throw new SkapiError('"options.email_subscription" should be type: <boolean>.', { code: 'INVALID_PARAMETER' });
             }
@@ -192,17 +192,17 @@ export async function inviteUser(
                 throw new SkapiError('"options.confirmation_url" is required for email subscription.', { code: 'INVALID_PARAMETER' });
             }
             return v;
-        },
-        template: (v: { url: string; subject: string; }) => {
+        }).optional(),
+        template: validator.schema.custom((v: { url: string; subject: string; }) => {
             if (typeof v !== 'object' || !v.url || !v.subject) {
                 throw new SkapiError('"options.template" should be type: <object> with "url" and "subject".', { code: 'INVALID_PARAMETER' });
             }
             return {
-                url: validator.Url(v.url),
+                url: validator.Url(v.url) as string,
                 subject: v.subject,
             };
-        },
-    });
+        }).optional()
+    }));
 
     params.signup_confirmation = options?.confirmation_url || true;
     params.email_subscription = options?.email_subscription || false;
@@ -230,14 +230,14 @@ export async function createAccount(
         { service?: string; owner?: string; }
     >,
 ): Promise<UserProfile & PublicUser & { email_admin: string; approved: string; log: number; username: string; }> {
-    let paramRestrictions = {
-        email: (v: string) => validator.Email(v),
-        password: (v: string) => validator.Password(v),
-        openid_id: 'string',
-        name: 'string',
-        username: 'string',
-        gender: 'string',
-        address: (v: any) => {
+    let paramRestrictions = validator.schema.object({
+        email: validator.schema.custom((v: string) => validator.Email(v)),
+        password: validator.schema.custom((v: string) => validator.Password(v)),
+        openid_id: validator.schema.string().nullable().optional(),
+        name: validator.schema.string().nullable().optional(),
+        username: validator.schema.string().nullable().optional(),
+        gender: validator.schema.string().nullable().optional(),
+        address: validator.schema.custom((v: any) => {
             if (!v) return '';
 
             if (typeof v === 'string') {
@@ -249,21 +249,21 @@ export async function createAccount(
             }
 
             return undefined;
-        },
-        birthdate: (v: string) => validator.Birthdate(v),
-        phone_number: (v: string) => validator.PhoneNumber(v),
-        picture: (v: string) => { if (v) return validator.Url(v); else return "" },
-        profile: (v: string) => { if (v) return validator.Url(v); else return "" },
-        website: (v: string) => { if (v) return validator.Url(v); else return "" },
-        nickname: 'string',
-        misc: 'string',
-
-        email_public: ['boolean', () => false],
-        gender_public: ['boolean', () => false],
-        address_public: ['boolean', () => false],
-        birthdate_public: ['boolean', () => false],
-        phone_number_public: ['boolean', () => false],
-        access_group: (v: number) => {
+        }).optional(),
+        birthdate: validator.schema.custom((v: string) => validator.Birthdate(v)).optional(),
+        phone_number: validator.schema.custom((v: string) => validator.PhoneNumber(v)).optional(),
+        picture: validator.schema.custom((v: string) => { if (v) return validator.Url(v) as string; else return "" }).optional(),
+        profile: validator.schema.custom((v: string) => { if (v) return validator.Url(v) as string; else return "" }).optional(),
+        website: validator.schema.custom((v: string) => { if (v) return validator.Url(v) as string; else return "" }).optional(),
+        nickname: validator.schema.string().nullable().optional(),
+        misc: validator.schema.string().nullable().optional(),
+
+        email_public: validator.schema.boolean().nullable().default(false),
+        gender_public: validator.schema.boolean().nullable().default(false),
+        address_public: validator.schema.boolean().nullable().default(false),
+        birthdate_public: validator.schema.boolean().nullable().default(false),
+        phone_number_public: validator.schema.boolean().nullable().default(false),
+        access_group: validator.schema.custom((v: number) => {
             // if string try to convert to number and if it's not a number, throw error
             try {
                 if (typeof v === 'string') {
@@ -277,10 +277,10 @@ export async function createAccount(
                 throw new SkapiError('"access_group" is invalid. Should be type <number> of range 1~99', { code: 'INVALID_PARAMETER' });
             }
             return v;
-        },
-    };
+        }).optional()
+    });
 
-    let params = validator.Params(form, paramRestrictions, ['email', 'password']);
+    let params = validator.Params(form, paramRestrictions);
 
     let isAdmin = await checkAdmin.bind(this)();
 
@@ -303,11 +303,11 @@ export async function grantAccess(params: Form<{
     service?: string;
     owner?: string;
 }>): Promise<'SUCCESS: Access has been granted to the user.'> {
-    params = validator.Params(params, {
-        user_id: (v: string) => {
+    params = validator.Params(params, validator.schema.object({
+        user_id: validator.schema.custom((v: string) => {
             return validator.UserId(v, '"user_id"');
-        },
-        access_group: (v: number) => {
+        }),
+        access_group: validator.schema.custom((v: number) => {
             // if string try to convert to number and if it's not a number, throw error
             try {
                 if (typeof v === 'string') {
@@ -322,8 +322,8 @@ export async function grantAccess(params: Form<{
             } else {
                 throw new SkapiError('"access_group" is invalid. Should be type <number> of range 1~99', { code: 'INVALID_PARAMETER' });
             }
-        }
-    }, ['user_id', 'access_group']);
+        })
+    }));
 
     let isAdmin = await checkAdmin.bind(this)();
 
@@ -345,9 +345,9 @@ export async function getInvitations(params?: Form<{
     owner?: string;
     email?: string;
 }>, fetchOptions?: FetchOptions): Promise<DatabaseResponse<UserProfile>> {
-    params = validator.Params(params, {
-        email: 'string',
-    });
+    params = validator.Params(params, validator.schema.object({
+        email: validator.schema.string().nullable().optional()
+    }));
 
     let isAdmin = await checkAdmin.bind(this)();
 
@@ -371,9 +371,9 @@ export async function cancelInvitation(params: Form<{
     owner?: string;
     email: string;
 }>): Promise<"SUCCESS: Invitation has been canceled."> {
-    params = validator.Params(params, {
-        email: v => validator.Email(v),
-    }, ['email']);
+    params = validator.Params(params, validator.schema.object({
+        email: validator.schema.custom((v: string) => validator.Email(v))
+    }));
 
     let isAdmin = await checkAdmin.bind(this)();
 
@@ -395,9 +395,9 @@ export async function resendInvitation(params: Form<{
     owner?: string;
     email: string;
 }>): Promise<"SUCCESS: Invitation has been re-sent. (User ID: xxx...)"> {
-    params = validator.Params(params, {
-        email: v => validator.Email(v),
-    }, ['email']);
+    params = validator.Params(params, validator.schema.object({
+        email: validator.schema.custom((v: string) => validator.Email(v))
+    }));
 
     let isAdmin = await checkAdmin.bind(this)();
 
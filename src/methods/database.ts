@@ -9,26 +9,33 @@ import {
     ProgressCallback,
     BinaryFile,
     FileInfo,
-    DelRecordQuery
+    DelRecordQuery,
+    PostRecordsItem,
+    PostRecordsResult,
+    RecordPatch
 } from '../Types';
-import SkapiError from '../main/error';
+import SkapiError, { SkapiConflictError, isSkapiError, toSkapiError } from '../main/error';
 import { extractFormData, fromBase62 } from '../utils/utils';
 import validator from '../utils/validator';
 import { request, uploadFiles } from '../utils/network';
+import { isBrowser, blobToDataURL } from '../utils/runtime';
+import { shouldQueueOffline, isOfflineError, queueOfflineJob, toStorable } from './offline';
+import { validateRecord } from './schema';
+import { localizeError } from '../utils/messages';
 import { checkAdmin } from './user';
 import { authentication } from './user';
-import { accessGroup, cannotBeEmptyString, getStruct, indexValue, recordIdOrUniqueId } from './param_restrictions';
+import { accessGroup, cannotBeEmptyString, getQuerySchema, indexValue, recordIdOrUniqueId } from './param_restrictions';
 
 export async function normalizeRecord(record: Record<string, any>, _called_from?): Promise<RecordData> {
     if (record?.rec) {
         if (_called_from !== 'called from postRecord') {
-            let recPost = sessionStorage.getItem(`${this.service}:post:${record.rec}`);
+            let recPost = await this.__storage.get(`${this.service}:post:${record.rec}`);
             if (recPost) {
                 try {
                     record = JSON.parse(recPost);
                 }
                 catch (err) { }
-                sessionStorage.removeItem(`${this.service}:post:${record.rec}`);
+                await this.__storage.remove(`${this.service}:post:${record.rec}`);
             }
         }
     }
@@ -307,6 +314,7 @@ export async function getFile(
         dataType?: 'base64' | 'download' | 'endpoint' | 'blob' | 'text' | 'info'; // default 'download'
         expires?: number; // uses url that expires in given seconds. this option does not use the cdn (slow). can be used for private files. (does not work on public files).
         progress?: ProgressCallback;
+        signal?: AbortSignal;
         _ref?: string;
         _update?: any;
     }
@@ -315,6 +323,9 @@ export async function getFile(
         throw new SkapiError('"url" should be type: string.', { code: 'INVALID_PARAMETER' });
     }
 
+    // signal is not serializable. taken before params validation
+    let signal = config?.signal;
+
     url = validator.Url(url.split('?')[0]);
     let isValidEndpoint = false;
     let splitUrl = url.split('/');
@@ -345,13 +356,13 @@ export async function getFile(
 
     let service = subdomain ? null : target_key[1];
 
-    config = validator.Params(config, {
-        expires: ['number', () => 0],
-        dataType: ['base64', 'blob', 'endpoint', 'text', 'info', () => 'download'],
-        progress: 'function',
-        _ref: 'string',
-        _update: v => v
-    });
+    config = validator.Params(config, validator.schema.object({
+        expires: validator.schema.number().nullable().default(0),
+        dataType: validator.schema.literal('base64', 'blob', 'endpoint', 'text', 'info', 'download').nullable().default('download'),
+        progress: validator.schema.function<ProgressCallback>().optional(),
+        _ref: validator.schema.string().nullable().optional(),
+        _update: validator.schema.any().optional()
+    }));
 
 
     if (config?.dataType === 'info') {
@@ -459,6 +470,9 @@ export async function getFile(
     }
 
     if (config?.dataType === 'download') {
+        if (!isBrowser) {
+            throw new SkapiError('"download" dataType is only available on web browsers.', { code: 'NOT_SUPPORTED' });
+        }
         let a = document.createElement('a');
         // Set the href attribute to the file URL
         a.href = url;
@@ -475,13 +489,11 @@ export async function getFile(
             let b = await request.bind(this)(
                 url,
                 null,
-                { method: 'get', contentType: null, responseType: config?.dataType === 'text' ? 'text' : 'blob', fetchOptions: { progress: config?.progress } },
+                { method: 'get', contentType: null, responseType: config?.dataType === 'text' ? 'text' : 'blob', fetchOptions: { progress: config?.progress, signal } },
                 { ignoreService: true }
             );
             if (config?.dataType === 'base64') {
-                const reader = new FileReader();
-                reader.onloadend = () => res((reader.result as string));
-                reader.readAsDataURL(b);
+                res(await blobToDataURL(b));
             }
             else {
                 res(b);
@@ -551,7 +563,7 @@ async function prepGetParams(query, isDel = false) {
             ref_user = ref.user_id;
             query.reference = ref_user;
         }
-        query = validator.Params(query || {}, getStruct.bind(this)(query), ref_user || isAdmin ? [] : ['table'], { ignoreEmpty: true });
+        query = validator.Params(query || {}, getQuerySchema.bind(this)(query, !(ref_user || isAdmin)), { ignoreEmpty: true });
     }
     return {
         query,
@@ -559,7 +571,7 @@ async function prepGetParams(query, isDel = false) {
     }
 }
 
-export async function getRecords(query: GetRecordQuery & { private_key?: string; }, fetchOptions?: FetchOptions): Promise<DatabaseResponse<RecordData>> {
+export async function getRecords<T = Record<string, any>>(query: GetRecordQuery & { private_key?: string; }, fetchOptions?: FetchOptions): Promise<DatabaseResponse<RecordData<T>>> {
     await this.__connection;
 
     let q = await prepGetParams.bind(this)(query);
@@ -592,11 +604,51 @@ export async function getRecords(query: GetRecordQuery & { private_key?: string;
     return result;
 }
 
-export async function postRecord(
-    form: Form<Record<string, any>> | null | undefined,
+function expectedUpdatedOf(params: { expectedUpdated?: number; ifUnmodifiedSince?: number; }, target: string): number | undefined {
+    let v = params?.expectedUpdated ?? params?.ifUnmodifiedSince;
+    if (v === undefined || v === null) {
+        return undefined;
+    }
+    if (typeof v !== 'number') {
+        throw new SkapiError('"expectedUpdated" should be type: number.', { code: 'INVALID_PARAMETER', messageId: 'type', messageParams: { param: '"expectedUpdated"', type: 'number' } });
+    }
+    if (!target || typeof target !== 'string') {
+        throw new SkapiError('"expectedUpdated" requires a single "record_id".', { code: 'INVALID_PARAMETER', messageId: 'required', messageParams: { param: 'record_id' } });
+    }
+    return v;
+}
+
+async function conflictError(query: { record_id?: string; unique_id?: string; }, current?: RecordData): Promise<SkapiConflictError> {
+    if (!current) {
+        try {
+            current = (await getRecords.bind(this)(query, { cache: false })).list?.[0];
+        }
+        catch (err) { }
+    }
+    let err = new SkapiConflictError('Record has been modified since "expectedUpdated".', { code: 'CONFLICT' });
+    err.current = current;
+    return err;
+}
+
+// Emulates the conditional request with a pre-read.
+// "expected_updated" is also sent with the request so services that support it check it on the server without the race.
+async function checkUnmodified(query: { record_id?: string; unique_id?: string; }, expectedUpdated: number) {
+    let { list } = await getRecords.bind(this)(query, { cache: false });
+    let current = list?.[0];
+    if (!current) {
+        throw new SkapiError('Record does not exist.', { code: 'NOT_EXISTS' });
+    }
+    if (current.updated !== expectedUpdated) {
+        throw await conflictError.bind(this)(query, current);
+    }
+}
+
+export async function postRecord<T = Record<string, any>>(
+    form: Form<T> | null | undefined,
     config: PostRecordConfig & { reference_private_key?: string; },
     files?: { name: string, file: File }[],
-): Promise<RecordData> {
+    _etc?: { offlineReplay?: boolean; }
+): Promise<RecordData<T>> {
     await this.__connection;
 
     let is_reference_post = "";
@@ -605,6 +657,10 @@ export async function postRecord(
         throw new SkapiError('"config" argument is required.', { code: 'INVALID_PARAMETER' });
     }
 
+    // signal is not serializable. taken before params validation
+    let signal = config.signal || null;
+    let expectedUpdated = expectedUpdatedOf(config, config.record_id);
+
     // if (!this.__user) {
     //     throw new SkapiError('Login is required.', { code: 'INVALID_REQUEST' });
     // }
@@ -617,6 +673,10 @@ export async function postRecord(
         };
     }
 
+    if (!config.record_id && !config.table?.name) {
+        throw new SkapiError('"table.name" is required.', { code: 'INVALID_PARAMETER', messageId: 'required', messageParams: { param: 'table.name' } });
+    }
+
     if (!config.record_id && !config.table.hasOwnProperty('access_group')) {
         config.table.access_group = 0;
     }
@@ -653,41 +713,52 @@ export async function postRecord(
         delete config.table.subscription?.is_subscription_record;
     }
 
-    let _config = validator.Params(config || {}, {
-        record_id: ['string', () => {
-            if (!config.table || !config.table.name) {
-                throw new SkapiError('"table.name" is required.', { code: 'INVALID_PARAMETER' });
+    const conditions = ['gt', 'gte', 'lt', 'lte', '>', '>=', '<', '<=', '=', 'eq', '!=', 'ne'];
+    let referencingIndexRestriction = (r: Record<string, any>) => validator.schema.object({
+        name: validator.schema.custom(v => cannotBeEmptyString(v, '"name" in "index_restrictions"', true, false)),
+        value: validator.schema.custom(v => indexValue(v)).optional(),
+        condition: validator.schema.custom(v => conditions.includes(v) ? v : null),
+        range: validator.schema.custom(val => {
+            if (val !== null && typeof r.value !== typeof val) {
+                throw new SkapiError('Index restriction "range" type should match the type of "value".', { code: 'INVALID_PARAMETER' });
             }
-        }],
-        unique_id: 'string',
-        readonly: 'boolean',
-        table: {
-            name: v => cannotBeEmptyString(v, 'table name', true, true),
-            subscription: {
-                group: v => {
+            if (!r.hasOwnProperty('value')) {
+                throw new SkapiError('Index restriction "value" is required.', { code: 'INVALID_PARAMETER' });
+            }
+            if (r.condition && (r.condition !== 'eq' || r.condition !== '=')) {
+                throw new SkapiError('Index restriction "condition" cannot be used with "range".', { code: 'INVALID_PARAMETER' });
+            }
+            return val;
+        }).optional()
+    });
+
+    let _config = validator.Params(config || {}, validator.schema.object({
+        record_id: validator.schema.string().nullable().optional(),
+        unique_id: validator.schema.string().nullable().optional(),
+        readonly: validator.schema.boolean().nullable().optional(),
+        table: validator.schema.object({
+            name: validator.schema.custom(v => cannotBeEmptyString(v, 'table name', true, true) as string).optional(),
+            subscription: validator.schema.object({
+                group: validator.schema.custom(v => {
                     if (v === 1) {
                         return 1
                     }
                     return null;
-                },
-                upload_to_feed: 'boolean',
-                notify_subscribers: 'boolean',
-                feed_referencing_records: 'boolean',
-                notify_referencing_records: 'boolean',
-            },
-            access_group: accessGroup.bind(this),
-        },
-        source: {
-            referencing_limit: reference_limit_check,
-            prevent_multiple_referencing: 'boolean',
-            can_remove_referencing_records: 'boolean',
-            only_granted_can_reference: 'boolean',
-            allow_granted_to_grant_others: 'boolean',
-            referencing_index_restrictions: v => {
-                if (v === undefined) {
-                    return undefined;
-                }
-
+                }).optional(),
+                upload_to_feed: validator.schema.boolean().nullable().optional(),
+                notify_subscribers: validator.schema.boolean().nullable().optional(),
+                feed_referencing_records: validator.schema.boolean().nullable().optional(),
+                notify_referencing_records: validator.schema.boolean().nullable().optional(),
+            }).nullable().optional(),
+            access_group: validator.schema.custom(accessGroup.bind(this)).optional(),
+        }).nullable().optional(),
+        source: validator.schema.object({
+            referencing_limit: validator.schema.custom(reference_limit_check).optional(),
+            prevent_multiple_referencing: validator.schema.boolean().nullable().optional(),
+            can_remove_referencing_records: validator.schema.boolean().nullable().optional(),
+            only_granted_can_reference: validator.schema.boolean().nullable().optional(),
+            allow_granted_to_grant_others: validator.schema.boolean().nullable().optional(),
+            referencing_index_restrictions: validator.schema.custom(v => {
                 if (!v) {
                     return null;
                 }
@@ -696,32 +767,14 @@ export async function postRecord(
                     return null;
                 }
 
-                let p = {
-                    name: [v => cannotBeEmptyString(v, '"name" in "index_restrictions"', true, false)],
-                    value: v => indexValue(v),
-                    condition: ['gt', 'gte', 'lt', 'lte', '>', '>=', '<', '<=', '=', 'eq', '!=', 'ne', () => null],
-                    range: val => {
-                        if (val !== null && typeof v.value !== typeof val) {
-                            throw new SkapiError('Index restriction "range" type should match the type of "value".', { code: 'INVALID_PARAMETER' });
-                        }
-                        if (!v.hasOwnProperty('value')) {
-                            throw new SkapiError('Index restriction "value" is required.', { code: 'INVALID_PARAMETER' });
-                        }
-                        if (v.condition && (v.condition !== 'eq' || v.condition !== '=')) {
-                            throw new SkapiError('Index restriction "condition" cannot be used with "range".', { code: 'INVALID_PARAMETER' });
-                        }
-                        return val;
-                    }
-                }
-
                 if (!Array.isArray(v)) {
                     v = [v];
                 }
 
-                return v.map(vv => validator.Params(vv, p));
-            },
-        },
-        reference: v => {
+                return v.map(r => referencingIndexRestriction(r).parse(r));
+            }).optional(),
+        }).nullable().optional(),
+        reference: validator.schema.custom(v => {
             if (v === null) {
                 return { record_id: null };
             }
@@ -739,9 +792,9 @@ export async function postRecord(
                 throw new SkapiError('"reference" should be type: <string | object>.', { code: 'INVALID_PARAMETER' });
             }
 
-            return validator.Params(v, {
-                unique_id: 'string',
-                record_id: v => {
+            return validator.schema.object({
+                unique_id: validator.schema.string().nullable().optional(),
+                record_id: validator.schema.custom(v => {
                     if (v === null || v === undefined) {
                         return v;
                     }
@@ -750,23 +803,23 @@ export async function postRecord(
                         config.reference_private_key = this.__private_access_key[v] || undefined;
                     }
                     return validator.specialChars(v, '"reference.record_id"', false, false);
-                }
-            });
-        },
-        index: {
-            name: v => cannotBeEmptyString(v, 'index.name', true, false),
-            value: v => indexValue(v)
-        },
-        tags: (v: string | string[]) => {
+                }).optional()
+            }).parse(v);
+        }).optional(),
+        index: validator.schema.object({
+            name: validator.schema.custom(v => cannotBeEmptyString(v, 'index.name', true, false) as string),
+            value: validator.schema.custom(v => indexValue(v))
+        }).nullable().optional(),
+        tags: validator.schema.custom((v: string | string[]) => {
             if (v === null || v === undefined) {
                 return v;
             }
             if (typeof v === 'string') {
                 v = v.split(',').map(t => t.trim());
             }
-            return validator.specialChars(v, 'tag', false, true);
-        },
-        remove_bin: (v: string[] | BinaryFile[] | null) => {
+            return validator.specialChars(v, 'tag', false, true) as string[];
+        }).optional(),
+        remove_bin: validator.schema.custom((v: string[] | BinaryFile[] | null) => {
             if (!v) {
                 return null;
             }
@@ -792,9 +845,9 @@ export async function postRecord(
             }
 
             return arr;
-        },
-        progress: 'function',
-    });
+        }).optional(),
+        progress: validator.schema.function<ProgressCallback>().optional(),
+    }));
 
     let progress = config.progress || null;
 
@@ -833,6 +886,14 @@ export async function postRecord(
     }
 
     postData = Object.assign({ data: extractedForm.data }, _config);
+    if (_config.table?.name) {
+        // table of updates without "table" is unknown. validated on the server
+        validateRecord.bind(this)(_config.table.name, postData);
+    }
+
+    if (expectedUpdated !== undefined) {
+        postData.expected_updated = expectedUpdated;
+    }
 
     let fetchOptions: { [key: string]: any } = {};
 
@@ -840,11 +901,39 @@ export async function postRecord(
         fetchOptions.progress = progress;
     }
 
+    if (signal) {
+        fetchOptions.signal = signal;
+    }
+
     if (Object.keys(fetchOptions).length) {
         Object.assign(options, { fetchOptions });
     }
     
-    let rec = await request.bind(this)('post-record', postData, options);
+    let queueOffline = async () => {
+        let job = await queueOfflineJob.bind(this)('postRecord', [toStorable(extractedForm.data), toStorable(config), to_bin]);
+        return provisionalRecord.bind(this)(job.id, postData) as RecordData<T>;
+    };
+
+    if (!_etc?.offlineReplay && await shouldQueueOffline.bind(this)()) {
+        return queueOffline();
+    }
+
+    let rec;
+    try {
+        if (expectedUpdated !== undefined) {
+            await checkUnmodified.bind(this)({ record_id: _config.record_id }, expectedUpdated);
+        }
+        rec = await request.bind(this)('post-record', postData, options);
+    }
+    catch (err) {
+        if (!_etc?.offlineReplay && isOfflineError.bind(this)(err)) {
+            return queueOffline();
+        }
+        if (isSkapiError(err, 'CONFLICT') && !(err instanceof SkapiConflictError && err.current)) {
+            throw await conflictError.bind(this)({ record_id: _config.record_id });
+        }
+        throw err;
+    }
 
     if (to_bin) {
         let bin_formData = new FormData();
@@ -853,12 +942,13 @@ export async function postRecord(
         }
         let uploadFileParams = {
             record_id: rec.rec,
-            progress
+            progress,
+            signal
         }
         if (_config.hasOwnProperty('service')) {
             uploadFileParams['service'] = _config.service;
         }
-        let { bin_endpoints } = await uploadFiles.bind(this)(bin_formData, uploadFileParams);
+        let { bin_endpoints } = await uploadFiles.bind(this)(bin_formData, uploadFileParams, _etc);
         if (!rec.bin) {
             rec.bin = bin_endpoints;
         }
@@ -871,15 +961,232 @@ export async function postRecord(
         this.__private_access_key[is_reference_post] = rec.reference_private_key;
     }
 
-    sessionStorage.setItem(`${this.service}:post:${rec.rec}`, JSON.stringify(rec));
+    await this.__storage.set(`${this.service}:post:${rec.rec}`, JSON.stringify(rec));
 
     let record = await normalizeRecord.bind(this)(rec, 'called from postRecord');
     if (record.unique_id) {
         this.__my_unique_ids[record.unique_id] = record.record_id;
-        sessionStorage.setItem(`${this.service}:uniqueids`, JSON.stringify(this.__my_unique_ids));
+        await this.__storage.set(`${this.service}:uniqueids`, JSON.stringify(this.__my_unique_ids));
+    }
+
+    return record as RecordData<T>;
+}
+
+// record shown in place of a post queued in offline mode
+function provisionalRecord(job_id: string, postData: Record<string, any>): RecordData {
+    let now = Date.now();
+    let reference = postData.reference;
+
+    return {
+        record_id: postData.record_id || `pending:${job_id}`,
+        unique_id: postData.unique_id,
+        user_id: this.__user?.user_id || '',
+        updated: now,
+        uploaded: now,
+        referenced_count: 0,
+        table: postData.table,
+        source: postData.source || {},
+        reference: typeof reference === 'string' ? reference : reference?.record_id || undefined,
+        index: postData.index,
+        data: postData.data,
+        tags: postData.tags || undefined,
+        bin: {},
+        ip: '',
+        readonly: !!postData.readonly,
+        pending: true
+    };
+}
+
+/**
+ * Posts records with postRecord(), running up to the concurrency at a time.
+ * Failures do not stop other items unless stopOnError is true.
+ */
+export async function postRecords<T = Record<string, any>>(
+    items: PostRecordsItem<T>[],
+    options?: {
+        /** Number of items posted at a time. Default: 5 */
+        concurrency?: number;
+        /** Skips the items not yet posted after the first failure. Default: false */
+        stopOnError?: boolean;
+    }
+): Promise<PostRecordsResult<T>> {
+    if (!Array.isArray(items)) {
+        throw new SkapiError('"items" should be type: array.', { code: 'INVALID_PARAMETER', messageId: 'type', messageParams: { param: '"items"', type: 'array' } });
+    }
+
+    let { concurrency, stopOnError } = validator.schema.object({
+        concurrency: validator.schema.number().refine(v => Number.isInteger(v) && v >= 1, '"concurrency" should be an integer >= 1.').default(5),
+        stopOnError: validator.schema.boolean().nullable().default(false)
+    }).parse(options || {});
+
+    let total = items.length;
+    let records: RecordData<T>[] = new Array(total);
+    let errors: SkapiError[] = new Array(total);
+    let completed = 0;
+    let failedCount = 0;
+
+    if (!total) {
+        return { succeeded: [], failed: [] };
+    }
+
+    // requests of the items go through the request queue of the instance, so requestBatchSize and batchProcess apply.
+    // items are not added to that queue as jobs: a job waiting on a request queued behind it would never finish.
+    let next = 0;
+    let stopped = false;
+
+    let worker = async () => {
+        while (next < total) {
+            let index = next++;
+
+            if (stopped) {
+                errors[index] = new SkapiError('Skipped after an earlier item has failed.', { code: 'ABORTED' });
+                failedCount++;
+            }
+            else {
+                try {
+                    records[index] = await postRecord.bind(this)(items[index]?.form, items[index]?.config, items[index]?.files);
+                }
+                catch (err) {
+                    errors[index] = localizeError.bind(this)(toSkapiError(err, { name: 'postRecord()' }));
+                    failedCount++;
+
+                    if (stopOnError) {
+                        stopped = true;
+                    }
+                }
+            }
+
+            completed++;
+            this._emit('postRecordsProgress', { index, total, completed, failed: failedCount, error: errors[index] });
+        }
+    };
+
+    await Promise.all(Array.from({ length: Math.min(concurrency, total) }, () => worker()));
+
+    let failed = [];
+    for (let i = 0; i < total; i++) {
+        if (errors[i]) {
+            failed.push({ index: i, error: errors[i] });
+        }
+    }
+
+    return { succeeded: records.filter(r => r), failed };
+}
+
+function isPlainObject(v: any): boolean {
+    return !!v && typeof v === 'object' && !Array.isArray(v);
+}
+
+function isArrayPatch(v: any): boolean {
+    return isPlainObject(v) && Object.keys(v).length > 0 && Object.keys(v).every(k => k === '$append' || k === '$remove');
+}
+
+// copies source into target, merging nested objects. nulls are kept
+function deepAssign(target: Record<string, any>, source: Record<string, any>) {
+    for (let k in source) {
+        if (isPlainObject(source[k]) && !isArrayPatch(source[k]) && isPlainObject(target[k]) && !isArrayPatch(target[k])) {
+            deepAssign(target[k], source[k]);
+        }
+        else {
+            target[k] = source[k];
+        }
+    }
+    return target;
+}
+
+// { 'data.a.b': 1 } => { data: { a: { b: 1 } } }
+function expandPaths(patch: Record<string, any>): Record<string, any> {
+    let expanded = {};
+    for (let path in patch) {
+        let value = patch[path];
+        for (let k of path.split('.').reverse()) {
+            value = { [k]: value };
+        }
+        deepAssign(expanded, value);
+    }
+    return expanded;
+}
+
+// JSON Merge Patch (RFC 7386) with ArrayPatch
+export function mergePatch(target: any, patch: any): any {
+    if (isArrayPatch(patch)) {
+        let list: any[] = Array.isArray(target) ? target : [];
+        if (Array.isArray(patch.$remove)) {
+            let removing = patch.$remove.map(v => JSON.stringify(v));
+            list = list.filter(v => !removing.includes(JSON.stringify(v)));
+        }
+        if (Array.isArray(patch.$append)) {
+            list = list.concat(patch.$append);
+        }
+        return list;
+    }
+
+    if (!isPlainObject(patch)) {
+        return patch;
+    }
+
+    let result = isPlainObject(target) ? Object.assign({}, target) : {};
+    for (let k in patch) {
+        if (patch[k] === null) {
+            delete result[k];
+        }
+        else {
+            result[k] = mergePatch(result[k], patch[k]);
+        }
+    }
+    return result;
+}
+
+/**
+ * Updates the named fields of the record, leaving the others as they are.
+ * Record is fetched, patched and posted back with postRecord().
+ */
+export async function patchRecord<T = Record<string, any>>(record_id: string, patch: RecordPatch): Promise<RecordData<T>> {
+    await this.__connection;
+
+    if (!record_id || typeof record_id !== 'string') {
+        throw new SkapiError('"record_id" should be type: string.', { code: 'INVALID_PARAMETER', messageId: 'type', messageParams: { param: '"record_id"', type: 'string' } });
+    }
+
+    if (!isPlainObject(patch)) {
+        throw new SkapiError('"patch" should be type: object.', { code: 'INVALID_PARAMETER', messageId: 'type', messageParams: { param: '"patch"', type: 'object' } });
+    }
+
+    let expanded = expandPaths(JSON.parse(JSON.stringify(patch)));
+    for (let k in expanded) {
+        if (!['data', 'tags', 'index', 'remove_bin'].includes(k)) {
+            throw new SkapiError(`"${k}" cannot be patched. Patchable keys are: data, tags, index, remove_bin.`, { code: 'INVALID_PARAMETER', messageId: 'invalid', messageParams: { param: `"${k}"` } });
+        }
+    }
+
+    let { list } = await getRecords.bind(this)({ record_id }, { cache: false });
+    let current = list?.[0];
+    if (!current) {
+        throw new SkapiError('Record does not exist.', { code: 'NOT_EXISTS' });
+    }
+
+    let config: PostRecordConfig = {
+        record_id: current.record_id,
+        table: { name: current.table.name },
+        // fails with CONFLICT when the record is changed while patching
+        expectedUpdated: current.updated
+    };
+
+    if (expanded.hasOwnProperty('tags')) {
+        config.tags = mergePatch(current.tags || [], expanded.tags);
     }
 
-    return record;
+    if (expanded.hasOwnProperty('index')) {
+        config.index = mergePatch(current.index, expanded.index);
+    }
+
+    if (expanded.hasOwnProperty('remove_bin')) {
+        config.remove_bin = expanded.remove_bin;
+    }
+
+    let data = expanded.hasOwnProperty('data') ? mergePatch(current.data, expanded.data) : current.data;
+
+    return postRecord.bind(this)(data ?? null, config);
 }
 
 export async function getTables(
@@ -895,10 +1202,10 @@ export async function getTables(
     table: string; // Table name
     size: number; // Table size
 }>> {
-    let res = await request.bind(this)('get-table', validator.Params(query || {}, {
-        table: 'string',
-        condition: ['gt', 'gte', 'lt', 'lte', '>', '>=', '<', '<=', '=', 'eq', '!=', 'ne']
-    }), Object.assign({ auth: !!this.__user }, { fetchOptions }));
+    let res = await request.bind(this)('get-table', validator.Params(query || {}, validator.schema.object({
+        table: validator.schema.string().nullable().optional(),
+        condition: validator.schema.literal('gt', 'gte', 'lt', 'lte', '>', '>=', '<', '<=', '=', 'eq', '!=', 'ne').nullable().optional()
+    })), Object.assign({ auth: !!this.__user }, { fetchOptions }));
 
     let convert = {
         'cnt_rec': 'number_of_records',
@@ -954,11 +1261,11 @@ export async function getIndexes(
 
     let p = validator.Params(
         query || {},
-        {
-            table: 'string',
-            index: (v: string) => validator.specialChars(v, 'index name', true, false),
-            order: {
-                by: [
+        validator.schema.object({
+            table: validator.schema.string().nullable(),
+            index: validator.schema.custom((v: string) => validator.specialChars(v, 'index name', true, false) as string).optional(),
+            order: validator.schema.object({
+                by: validator.schema.literal(
                     'average_number',
                     'total_number',
                     'number_count',
@@ -968,12 +1275,11 @@ export async function getIndexes(
                     'string_count',
                     'index_name',
                     'number_of_records'
-                ],
-                value: ['string', 'number', 'boolean'],
-                condition: ['gt', 'gte', 'lt', 'lte', '>', '>=', '<', '<=', '=', 'eq', '!=', 'ne']
-            }
-        },
-        ['table']
+                ).nullable().optional(),
+                value: validator.schema.union(validator.schema.string(), validator.schema.number(), validator.schema.boolean()).nullable().optional(),
+                condition: validator.schema.literal('gt', 'gte', 'lt', 'lte', '>', '>=', '<', '<=', '=', 'eq', '!=', 'ne').nullable().optional()
+            }).nullable().optional()
+        })
     );
 
     if (p.hasOwnProperty('order')) {
@@ -1052,11 +1358,11 @@ export async function getTags(
     let res = await request.bind(this)(
         'get-tag',
         validator.Params(query || {},
-            {
-                table: 'string',
-                tag: 'string',
-                condition: ['gt', 'gte', 'lt', 'lte', '>', '>=', '<', '<=', '=', 'eq', '!=', 'ne']
-            }
+            validator.schema.object({
+                table: validator.schema.string().nullable().optional(),
+                tag: validator.schema.string().nullable().optional(),
+                condition: validator.schema.literal('gt', 'gte', 'lt', 'lte', '>', '>=', '<', '<=', '=', 'eq', '!=', 'ne').nullable().optional()
+            })
         ),
         Object.assign({ auth: !!this.__user }, { fetchOptions })
     );
@@ -1091,10 +1397,10 @@ export async function getUniqueId(
     let res = await request.bind(this)(
         'get-uniqueid',
         validator.Params(query || {},
-            {
-                unique_id: 'string',
-                condition: ['gt', 'gte', 'lt', 'lte', '>', '>=', '<', '<=', '=', 'eq', '!=', 'ne']
-            }
+            validator.schema.object({
+                unique_id: validator.schema.string().nullable().optional(),
+                condition: validator.schema.literal('gt', 'gte', 'lt', 'lte', '>', '>=', '<', '<=', '=', 'eq', '!=', 'ne').nullable().optional()
+            })
         ),
         Object.assign({ auth: !!this.__user }, { fetchOptions })
     );
@@ -1112,12 +1418,48 @@ export async function getUniqueId(
     return res;
 }
 
-export async function deleteRecords(query: DelRecordQuery & { private_key?: string; }, fetchOptions?: FetchOptions): Promise<string | DatabaseResponse<RecordData>> {
+export async function deleteRecords(
+    query: DelRecordQuery & { private_key?: string; },
+    fetchOptions?: FetchOptions,
+    _etc?: { offlineReplay?: boolean; }
+): Promise<string | DatabaseResponse<RecordData>> {
     await this.__connection;
 
+    let queueOffline = async () => {
+        await queueOfflineJob.bind(this)('deleteRecords', [toStorable(query), toStorable(fetchOptions)]);
+        return 'PENDING: Delete request has been queued.';
+    };
+
+    let target = query?.record_id ? { record_id: query.record_id as string } : { unique_id: query?.unique_id as string };
+    let expectedUpdated = expectedUpdatedOf(query, target.record_id || target.unique_id);
+
     let q = await prepGetParams.bind(this)(query, true);
     let is_reference_fetch = q.is_reference_fetch;
-    let result = await request.bind(this)('del-records', q.query, { auth: true, fetchOptions });
+
+    if (expectedUpdated !== undefined) {
+        q.query.expected_updated = expectedUpdated;
+    }
+
+    if (!_etc?.offlineReplay && await shouldQueueOffline.bind(this)()) {
+        return queueOffline();
+    }
+
+    let result;
+    try {
+        if (expectedUpdated !== undefined) {
+            await checkUnmodified.bind(this)(target, expectedUpdated);
+        }
+        result = await request.bind(this)('del-records', q.query, { auth: true, fetchOptions });
+    }
+    catch (err) {
+        if (!_etc?.offlineReplay && isOfflineError.bind(this)(err)) {
+            return queueOffline();
+        }
+        if (isSkapiError(err, 'CONFLICT') && !(err instanceof SkapiConflictError && err.current)) {
+            throw await conflictError.bind(this)(target);
+        }
+        throw err;
+    }
     if (is_reference_fetch && typeof result?.reference_private_key === 'string') {
         this.__private_access_key[is_reference_fetch] = result.reference_private_key;
     }
@@ -1236,9 +1578,9 @@ function recordAccess(params: {
 }): Promise<any> {
     let execute = params.execute;
     let req = validator.Params(params,
-        {
-            record_id: 'string',
-            user_id: (v: string | string[]) => {
+        validator.schema.object({
+            record_id: validator.schema.string().nullable(),
+            user_id: validator.schema.custom((v: string | string[]) => {
                 if (!v) {
                     throw new SkapiError(`User ID is required.`, { code: 'INVALID_PARAMETER' });
                 }
@@ -1257,14 +1599,9 @@ function recordAccess(params: {
                 }
 
                 return id;
-            },
-            execute: ['add', 'remove']
-        },
-        [
-            'execute',
-            'record_id',
-            'user_id'
-        ]
+            }),
+            execute: validator.schema.literal('add', 'remove').nullable()
+        })
     );
 
     if (!req.user_id) {
@@ -0,0 +1,266 @@
+import SkapiError from '../main/error';
+import { OfflineJobInfo } from '../Types';
+import { generateRandom } from '../utils/utils';
+import { uploadFiles } from '../utils/network';
+import { isInstanceOf } from '../utils/runtime';
+import { postRecord, deleteRecords } from './database';
+
+// Offline write queue.
+// When offline mode is enabled, mutating calls are persisted in IndexedDB while the network is unreachable
+// and replayed in queued order when connectivity returns.
+
+type OfflineJob = OfflineJobInfo & {
+    /** Structured cloneable arguments of the call. Files are stored as is. */
+    args: any[];
+};
+
+// error codes that means the target has changed while offline. replaying again will not succeed.
+const CONFLICT_CODES = ['NOT_EXISTS', 'EXISTS', 'CONFLICT'];
+
+export function isOffline(): boolean {
+    return typeof navigator !== 'undefined' && navigator.onLine === false;
+}
+
+/** Copies call arguments for storage. Callbacks and abort signals are dropped as they cannot be stored. */
+export function toStorable<T>(value: T): T {
+    if (value === undefined || value === null) {
+        return value;
+    }
+    return JSON.parse(JSON.stringify(value, (k, v) => typeof v === 'function' || isInstanceOf(v, 'AbortSignal') ? undefined : v));
+}
+
+export function isPendingId(id: any): boolean {
+    return typeof id === 'string' && id.startsWith('pending:');
+}
+
+function queueKey(): string {
+    return `${this.service}#${this.owner}:offline`;
+}
+
+function getJobIds(): Promise<string[]> {
+    return this.__offlineStorage.get(queueKey.bind(this)()).then(ids => ids || []);
+}
+
+// queue list is read and written in sequence to keep the order.
+function withLock<T>(fn: () => Promise<T>): Promise<T> {
+    let run = this.__offlineLock.then(fn);
+    this.__offlineLock = run.catch(() => null);
+    return run;
+}
+
+/**
+ * Returns true when the mutating call should be queued.
+ * Calls are queued while offline, and while earlier calls are still waiting in the queue so the order is kept.
+ */
+export async function shouldQueueOffline(): Promise<boolean> {
+    if (!this.__offlineStorage) {
+        return false;
+    }
+
+    if (isOffline()) {
+        return true;
+    }
+
+    return (await getJobIds.bind(this)()).length > 0;
+}
+
+/**
+ * Returns true when the error means the request did not reach the server.
+ * Requests that may have reached the server are not queued, as replaying them could post twice.
+ */
+export function isOfflineError(err: any): boolean {
+    return !!this.__offlineStorage && err?.code === 'NETWORK_ERROR' && (isOffline() || err.requestSent === false);
+}
+
+export async function queueOfflineJob(method: OfflineJob['method'], args: any[]): Promise<OfflineJobInfo> {
+    let job: OfflineJob = {
+        id: generateRandom(12),
+        method,
+        queued_at: Date.now(),
+        args
+    };
+
+    let size = await withLock.bind(this)(async () => {
+        let key = queueKey.bind(this)();
+        await this.__offlineStorage.set(`${key}:${job.id}`, job);
+        let ids = await getJobIds.bind(this)();
+        ids.push(job.id);
+        await this.__offlineStorage.set(key, ids);
+        return ids.length;
+    });
+
+    let info = { id: job.id, method: job.method, queued_at: job.queued_at };
+    this._emit('offlineQueued', Object.assign({ size }, info));
+
+    if (!isOffline()) {
+        // queued behind earlier jobs while online
+        replayOfflineQueue.bind(this)().catch(err => this.log('offline replay error:', err));
+    }
+
+    return info;
+}
+
+export async function getOfflineQueue(): Promise<OfflineJobInfo[]> {
+    if (!this.__offlineStorage) {
+        return [];
+    }
+
+    let key = queueKey.bind(this)();
+    let list = [];
+    for (let id of await getJobIds.bind(this)()) {
+        let job: OfflineJob = await this.__offlineStorage.get(`${key}:${id}`);
+        if (job) {
+            list.push({ id: job.id, method: job.method, queued_at: job.queued_at });
+        }
+    }
+    return list;
+}
+
+// replace provisional record ids with the record ids given on replay
+function resolvePendingIds(job: OfflineJob, resolved: Record<string, string>) {
+    let resolve = (id: any) => isPendingId(id) && resolved[id] ? resolved[id] : id;
+    let [a, b] = job.args;
+
+    switch (job.method) {
+        case 'postRecord':
+            b.record_id = resolve(b.record_id);
+            if (typeof b.reference === 'string') {
+                b.reference = resolve(b.reference);
+            }
+            else if (b.reference?.record_id) {
+                b.reference.record_id = resolve(b.reference.record_id);
+            }
+            break;
+        case 'deleteRecords':
+            if (Array.isArray(a?.record_id)) {
+                a.record_id = a.record_id.map(resolve);
+            }
+            else if (a?.record_id) {
+                a.record_id = resolve(a.record_id);
+            }
+            break;
+        case 'uploadFiles':
+            b.record_id = resolve(b.record_id);
+            break;
+    }
+}
+
+function runJob(job: OfflineJob): Promise<any> {
+    let _etc = { offlineReplay: true };
+    let [a, b, c] = job.args;
+
+    switch (job.method) {
+        case 'postRecord':
+            return postRecord.bind(this)(a, b, c, _etc);
+        case 'deleteRecords':
+            return deleteRecords.bind(this)(a, b, _etc);
+        case 'uploadFiles':
+            let formData = new FormData();
+            for (let f of a) {
+                formData.append(f.name, f.file, f.file.name);
+            }
+            return uploadFiles.bind(this)(formData, b, _etc);
+    }
+}
+
+/**
+ * Replays queued calls in order.
+ * Stops when the network is still unreachable. Calls rejected by the server are removed from the queue.
+ */
+export function replayOfflineQueue(): Promise<void> {
+    if (!this.__offlineStorage) {
+        return Promise.resolve();
+    }
+
+    if (this.__offlineReplaying) {
+        return this.__offlineReplaying;
+    }
+
+    let key = queueKey.bind(this)();
+    let remove = (id: string) => withLock.bind(this)(async () => {
+        let ids = await getJobIds.bind(this)();
+        await this.__offlineStorage.set(key, ids.filter(i => i !== id));
+        await this.__offlineStorage.remove(`${key}:${id}`);
+    });
+
+    this.__offlineReplaying = (async () => {
+        await this.__connection;
+
+        let resolved: Record<string, string> = (await this.__offlineStorage.get(`${key}:resolved`)) || {};
+
+        while (!isOffline()) {
+            let [id] = await getJobIds.bind(this)();
+            if (!id) {
+                break;
+            }
+
+            let job: OfflineJob = await this.__offlineStorage.get(`${key}:${id}`);
+            if (!job) {
+                await remove(id);
+                continue;
+            }
+
+            let info = { id: job.id, method: job.method, queued_at: job.queued_at };
+            let result: any;
+
+            try {
+                resolvePendingIds(job, resolved);
+                result = await runJob.bind(this)(job);
+            }
+            catch (err: any) {
+                if (err?.code === 'NETWORK_ERROR') {
+                    // still unreachable. try again on next replay
+                    break;
+                }
+
+                await remove(id);
+                this._emit('offlineFailed', Object.assign({ error: err, conflict: CONFLICT_CODES.includes(err?.code) }, info));
+                continue;
+            }
+
+            if (job.method === 'uploadFiles' && result?.failed?.length) {
+                if (isOffline()) {
+                    // uploads overwrite the same files. try again on next replay
+                    break;
+                }
+
+                await remove(id);
+                let error = new SkapiError(`Failed to upload ${result.failed.length} file(s).`, { code: 'ERROR' });
+                this._emit('offlineFailed', Object.assign({ error, conflict: false, failed: result.failed }, info));
+                continue;
+            }
+
+            if (job.method === 'postRecord' && !job.args[1].record_id) {
+                resolved[`pending:${job.id}`] = result.record_id;
+                await this.__offlineStorage.set(`${key}:resolved`, resolved);
+            }
+
+            await remove(id);
+            this._emit('offlineReplay', Object.assign({ result }, info));
+        }
+
+        if (!(await getJobIds.bind(this)()).length) {
+            await this.__offlineStorage.remove(`${key}:resolved`);
+        }
+    })().finally(() => {
+        this.__offlineReplaying = null;
+    });
+
+    return this.__offlineReplaying;
+}
+
+/** Removes every queued call. */
+export async function clearOfflineQueue(): Promise<void> {
+    if (!this.__offlineStorage) {
+        return;
+    }
+
+    let key = queueKey.bind(this)();
+    await withLock.bind(this)(async () => {
+        for (let id of await getJobIds.bind(this)()) {
+            await this.__offlineStorage.remove(`${key}:${id}`);
+        }
+        await this.__offlineStorage.remove(key);
+        await this.__offlineStorage.remove(`${key}:resolved`);
+    });
+}
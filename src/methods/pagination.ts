@@ -0,0 +1,119 @@
+import SkapiError from '../main/error';
+import { DatabaseResponse, IterateOptions, PageMethod, StartKey } from '../Types';
+
+// Pagination.
+// Pages are fetched with the start key of the previous page, so iteration does not depend on fetchMore state.
+
+/**
+ * Returns an async iterable over the items, or pages when options.pages is true, of the paginated method.
+ * Next page is fetched only when the iteration continues. Breaking out of the loop stops fetching.
+ */
+export function iterate<Q, T>(method: PageMethod<Q, T>, query?: Q, options?: IterateOptions): AsyncIterable<T | DatabaseResponse<T>> {
+    if (typeof method !== 'function') {
+        throw new SkapiError('"method" should be a paginated method. ex) skapi.getRecords', { code: 'INVALID_PARAMETER', messageId: 'invalid', messageParams: { param: '"method"' } });
+    }
+
+    let { pages = false, maxItems, ...fetchOptions } = options || {};
+
+    if (maxItems !== undefined && (typeof maxItems !== 'number' || maxItems < 1)) {
+        throw new SkapiError('"maxItems" should be a number >= 1.', { code: 'INVALID_PARAMETER', messageId: 'minimum', messageParams: { param: 'maxItems', min: 1 } });
+    }
+
+    let self = this;
+
+    return {
+        async *[Symbol.asyncIterator]() {
+            let count = 0;
+            let startKey = fetchOptions.startKey;
+
+            while (true) {
+                let page = await method.call(self, query, Object.assign({}, fetchOptions, startKey ? { startKey } : {}));
+                let list: T[] = page?.list || [];
+
+                if (maxItems && count + list.length > maxItems) {
+                    list = list.slice(0, maxItems - count);
+                }
+
+                count += list.length;
+
+                if (pages) {
+                    yield Object.assign({}, page, { list });
+                }
+                else {
+                    yield* list;
+                }
+
+                if (!page || page.endOfList || !page.startKey || page.startKey === 'end' || maxItems && count >= maxItems) {
+                    return;
+                }
+
+                startKey = page.startKey;
+            }
+        }
+    };
+}
+
+// Cursor is base64url of JSON { k: start key of the page, h: start keys of the previous pages }.
+// First page has no start key. ex) { k: null, h: [] }
+type Cursor = { k: StartKey | null; h: StartKey[]; };
+
+function toBase64Url(str: string): string {
+    let binary = '';
+    new TextEncoder().encode(str).forEach(b => binary += String.fromCharCode(b));
+    return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(str: string): string {
+    let binary = atob(str.replace(/-/g, '+').replace(/_/g, '/'));
+    return new TextDecoder().decode(Uint8Array.from(binary, c => c.charCodeAt(0)));
+}
+
+export function encodeCursor(cursor: Cursor): string {
+    return toBase64Url(JSON.stringify(cursor));
+}
+
+export function decodeCursor(cursor: string): Cursor {
+    let invalid = () => new SkapiError('"cursor" is invalid.', { code: 'INVALID_PARAMETER', messageId: 'invalid', messageParams: { param: '"cursor"' } });
+
+    if (typeof cursor !== 'string') {
+        throw invalid();
+    }
+
+    let decoded: Cursor;
+    try {
+        decoded = JSON.parse(fromBase64Url(cursor));
+    }
+    catch (err) {
+        throw invalid();
+    }
+
+    if (!decoded || typeof decoded !== 'object' || typeof decoded.k !== 'object' || !Array.isArray(decoded.h)) {
+        throw invalid();
+    }
+
+    return decoded;
+}
+
+/**
+ * Returns a copy of DatabaseResponse with nextCursor and prevCursor.
+ * pageStart is the start key the page was fetched with. history is the start keys of the previous pages, null when unknown.
+ */
+export function withCursors<T>(result: T, pageStart: StartKey | undefined, history: StartKey[] | null): T {
+    let res = result as DatabaseResponse<any>;
+    if (!res || typeof res !== 'object' || !Array.isArray(res.list) || !res.hasOwnProperty('endOfList')) {
+        return result;
+    }
+
+    let next = res.endOfList || !res.startKey || res.startKey === 'end' ? null : res.startKey;
+    let h = (history || []).concat(pageStart ? [pageStart] : []);
+    let prev: string | null = null;
+
+    if (pageStart && history) {
+        prev = encodeCursor({ k: history.length ? history[history.length - 1] : null, h: history.slice(0, -1) });
+    }
+
+    return Object.assign({}, result, {
+        nextCursor: next ? encodeCursor({ k: next, h }) : null,
+        prevCursor: prev
+    });
+}
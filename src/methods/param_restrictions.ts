@@ -25,7 +25,7 @@ export function recordIdOrUniqueId(query) {
 
 export function cannotBeEmptyString(v, paramName = 'parameter', allowPeriods = false, allowWhiteSpace = false) {
     if (!v) {
-        throw new SkapiError(`"${paramName}" is required.`, { code: 'INVALID_PARAMETER' });
+        throw new SkapiError(`"${paramName}" is required.`, { code: 'INVALID_PARAMETER', messageId: 'required', messageParams: { param: paramName } });
     }
     return validator.specialChars(v, paramName, allowPeriods, allowWhiteSpace);
 }
@@ -37,7 +37,7 @@ export function accessGroup(v) {
 
     if (typeof v === 'number') {
         if (v > 99 || v < 0) {
-            throw new SkapiError('"table.access_group" value should be within a range of 0 ~ 99.', { code: 'INVALID_REQUEST' });
+            throw new SkapiError('"table.access_group" value should be within a range of 0 ~ 99.', { code: 'INVALID_REQUEST', messageId: 'access_group_range' });
         }
     }
 
@@ -50,15 +50,15 @@ export function accessGroup(v) {
         }[v]
 
         if (v === undefined) {
-            throw new SkapiError('"table.access_group" is invalid.', { code: 'INVALID_PARAMETER' });
+            throw new SkapiError('"table.access_group" is invalid.', { code: 'INVALID_PARAMETER', messageId: 'invalid', messageParams: { param: '"table.access_group"' } });
         }
     }
     else {
-        throw new SkapiError('"table.access_group" should be type: <number | string>.', { code: 'INVALID_PARAMETER' });
+        throw new SkapiError('"table.access_group" should be type: <number | string>.', { code: 'INVALID_PARAMETER', messageId: 'type', messageParams: { param: '"table.access_group"', type: '<number | string>' } });
     }
 
     if (!this.__user && v) {
-        throw new SkapiError('Unsigned users have no access to records with access group.', { code: 'INVALID_REQUEST' });
+        throw new SkapiError('Unsigned users have no access to records with access group.', { code: 'INVALID_REQUEST', messageId: 'access_group_login' });
     }
 
     return v;
@@ -68,7 +68,7 @@ const __index_number_range = 4503599627370496; // +/-
 export function indexValue(v) {
     if (typeof v === 'number') {
         if (v > __index_number_range || v < -__index_number_range) {
-            throw new SkapiError(`Number value should be within range -${__index_number_range} ~ +${__index_number_range}`, { code: 'INVALID_PARAMETER' });
+            throw new SkapiError(`Number value should be within range -${__index_number_range} ~ +${__index_number_range}`, { code: 'INVALID_PARAMETER', messageId: 'number_range', messageParams: { range: __index_number_range } });
         }
         return v;
     }
@@ -81,20 +81,20 @@ export function indexValue(v) {
         return cannotBeEmptyString(v, 'index.value', false, true)
     }
 
-    throw new SkapiError(`"index.value" should be type: <number | boolean | string>.`, { code: 'INVALID_PARAMETER' });
+    throw new SkapiError(`"index.value" should be type: <number | boolean | string>.`, { code: 'INVALID_PARAMETER', messageId: 'type', messageParams: { param: '"index.value"', type: '<number | boolean | string>' } });
 }
 
 export function indexRange(v, query) {
     if (!query.index || !('value' in query.index)) {
-        throw new SkapiError('"index.value" is required.', { code: 'INVALID_PARAMETER' });
+        throw new SkapiError('"index.value" is required.', { code: 'INVALID_PARAMETER', messageId: 'required', messageParams: { param: 'index.value' } });
     }
 
     if (query.index.name === '$record_id') {
-        throw new SkapiError(`Cannot do "index.range" on ${query.index.name}`, { code: 'INVALID_PARAMETER' });
+        throw new SkapiError(`Cannot do "index.range" on ${query.index.name}`, { code: 'INVALID_PARAMETER', messageId: 'index_range', messageParams: { index: query.index.name } });
     }
 
     if (typeof query.index.value !== typeof v) {
-        throw new SkapiError('"index.range" type should match the type of "index.value".', { code: 'INVALID_PARAMETER' });
+        throw new SkapiError('"index.range" type should match the type of "index.value".', { code: 'INVALID_PARAMETER', messageId: 'range_type' });
     }
 
     if (typeof v === 'string') {
@@ -104,26 +104,32 @@ export function indexRange(v, query) {
     return v;
 }
 
-export function getStruct(query) {
-    return {
-        table: {
-            name: [v => cannotBeEmptyString(v, 'table.name', true, true)],
-            access_group: [accessGroup.bind(this)],
-            subscription: (v: any) => {
-                if (typeof v === 'string') {
-                    validator.UserId(v, 'User ID in "subscription"');
-                    return v
-                }
-
-                return undefined;
+/** Schema of the record query. Table is not required on user reference and admin queries. */
+export function getQuerySchema(query, tableRequired = true) {
+    let table = validator.schema.object({
+        name: validator.schema.custom(v => cannotBeEmptyString(v, 'table.name', true, true) as string).optional(),
+        access_group: validator.schema.custom(accessGroup.bind(this)).optional(),
+        subscription: validator.schema.custom((v: any) => {
+            if (typeof v === 'string') {
+                validator.UserId(v, 'User ID in "subscription"');
+                return v as string;
             }
-        },
-        reference: 'string',
-        index: {
-            name: ['$updated', '$uploaded', '$referenced_count', '$user_id', (v: string) => {
-                return cannotBeEmptyString(v, 'index.name', true, false)
-            }],
-            value: (v: number | boolean | string) => {
+
+            return undefined;
+        }).optional()
+    });
+
+    return validator.schema.object({
+        table: tableRequired ? table.nullable() : table.nullable().optional(),
+        reference: validator.schema.string().nullable().optional(),
+        index: validator.schema.object({
+            name: validator.schema.custom((v: string) => {
+                if (['$updated', '$uploaded', '$referenced_count', '$user_id'].includes(v)) {
+                    return v;
+                }
+                return cannotBeEmptyString(v, 'index.name', true, false) as string;
+            }).optional(),
+            value: validator.schema.custom((v: number | boolean | string) => {
                 const indexTypes = {
                     '$updated': 'number',
                     '$uploaded': 'number',
@@ -139,7 +145,7 @@ export function getStruct(query) {
                     }
 
                     if (tp !== typeof v) {
-                        throw new SkapiError(`"index.value" should be type: ${tp}.`, { code: 'INVALID_PARAMETER' });
+                        throw new SkapiError(`"index.value" should be type: ${tp}.`, { code: 'INVALID_PARAMETER', messageId: 'type', messageParams: { param: '"index.value"', type: tp } });
                     }
 
                     return v;
@@ -150,21 +156,21 @@ export function getStruct(query) {
                 }
 
                 return indexValue(v);
-            },
-            condition: ['gt', 'gte', 'lt', 'lte', '>', '>=', '<', '<=', '=', 'eq'],
-            range: (v: number | boolean | string) => indexRange(v, query)
-        },
-        tag: (v: string) => {
+            }).optional(),
+            condition: validator.schema.literal('gt', 'gte', 'lt', 'lte', '>', '>=', '<', '<=', '=', 'eq').nullable().optional(),
+            range: validator.schema.custom((v: number | boolean | string) => indexRange(v, query)).optional()
+        }).nullable().optional(),
+        tag: validator.schema.custom((v: string) => {
             if (v === null || v === undefined) {
                 return v;
             }
             if (typeof v === 'string') {
-                return validator.specialChars(v, 'tag', false, true)
+                return validator.specialChars(v, 'tag', false, true) as string;
             }
             else {
-                throw new SkapiError('"tag" should be type: string.', { code: 'INVALID_PARAMETER' });
+                throw new SkapiError('"tag" should be type: string.', { code: 'INVALID_PARAMETER', messageId: 'type', messageParams: { param: '"tag"', type: 'string' } });
             }
-        },
-        private_key: 'string'
-    }
-}
\ No newline at end of file
+        }).optional(),
+        private_key: validator.schema.string().nullable().optional()
+    });
+}
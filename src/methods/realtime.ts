@@ -4,8 +4,9 @@ import validator from '../utils/validator';
 import { extractFormData } from '../utils/utils';
 import { request } from '../utils/network';
 import { DatabaseResponse, FetchOptions, RealtimeCallback, WebSocketMessage } from '../Types';
-import { answerSdpOffer, receiveIceCandidate, __peerConnection, __receiver_ringing, closeRTC, respondRTC, __caller_ringing, __rtcEvents } from './webrtc';
+import { answerSdpOffer, receiveIceCandidate, closeRTC, respondRTC } from './webrtc';
 import { getJwtToken } from './user';
+import { isBrowser } from '../utils/runtime';
 
 // let __roomList: {
 //     [realTimeGroup: string]: {
@@ -13,11 +14,6 @@ import { getJwtToken } from './user';
 //     }
 // } = {};
 
-let __current_socket_room: string;
-let __keepAliveInterval = null;
-let closedByIntention = true;
-let reconnectAttempts = 0;
-
 async function prepareWebsocket() {
     // Connect to the WebSocket server
     await this.getProfile();
@@ -33,24 +29,21 @@ async function prepareWebsocket() {
     );
 }
 
-
-let visibilitychange = null;
-
 export async function closeRealtime(): Promise<void> {
-    closedByIntention = true;
+    this.__closedByIntention = true;
     let socket: WebSocket = this.__socket ? await this.__socket : this.__socket;
     closeRTC.bind(this)({ close_all: true });
 
-    if(__current_socket_room) {
+    if(this.__current_socket_room) {
         joinRealtime.bind(this)({ group: null });
     }
 
     // __roomList = {};
-    reconnectAttempts = 0;
+    this.__reconnectAttempts = 0;
 
-    if (__keepAliveInterval) {
-        __keepAliveInterval.terminate();
-        __keepAliveInterval = null;
+    if (this.__keepAliveInterval) {
+        this.__keepAliveInterval.terminate();
+        this.__keepAliveInterval = null;
     }
 
     try {
@@ -60,7 +53,9 @@ export async function closeRealtime(): Promise<void> {
     }
     catch (e) { }
 
-    window.removeEventListener('visibilitychange', visibilitychange);
+    if (isBrowser) {
+        window.removeEventListener('visibilitychange', this.__visibilitychange);
+    }
     this.__socket = null;
     return null;
 }
@@ -70,6 +65,10 @@ export async function connectRealtime(cb: RealtimeCallback, delay = 50, reconnec
         throw new SkapiError(`Callback must be a function.`, { code: 'INVALID_REQUEST' });
     }
 
+    if (typeof WebSocket === 'undefined') {
+        throw new SkapiError(`WebSocket is not available in this environment.`, { code: 'NOT_SUPPORTED' });
+    }
+
     if(reconnect === 'reconnect') {
         if(this.__socket instanceof Promise) {
             let socket = await this.__socket;
@@ -79,10 +78,10 @@ export async function connectRealtime(cb: RealtimeCallback, delay = 50, reconnec
         }
     }
 
-    else if (closedByIntention) {
+    else if (this.__closedByIntention) {
         // if the connection was closed intentionally, and it's not a reconnect attempt
-        visibilitychange = () => {
-            if (!document.hidden && !closedByIntention) {
+        this.__visibilitychange = () => {
+            if (!document.hidden && !this.__closedByIntention) {
                 connectRealtime.bind(this)(cb, 0, 'reconnect');
             }
         }
@@ -92,9 +91,9 @@ export async function connectRealtime(cb: RealtimeCallback, delay = 50, reconnec
         }
     }
 
-    if (__keepAliveInterval) {
-        __keepAliveInterval.terminate();
-        __keepAliveInterval = null;
+    if (this.__keepAliveInterval) {
+        this.__keepAliveInterval.terminate();
+        this.__keepAliveInterval = null;
     }
 
     this.__socket = new Promise(async (resolve) => {
@@ -104,20 +103,21 @@ export async function connectRealtime(cb: RealtimeCallback, delay = 50, reconnec
             let socket: WebSocket = await prepareWebsocket.bind(this)();
 
             socket.onopen = () => {
-                closedByIntention = false;
-                reconnectAttempts = 0;
+                this.__closedByIntention = false;
+                this.__reconnectAttempts = 0;
 
-                if (reconnect !== 'reconnect') {
-                    window.addEventListener('visibilitychange', visibilitychange);
+                if (reconnect !== 'reconnect' && isBrowser) {
+                    window.addEventListener('visibilitychange', this.__visibilitychange);
                 }
 
                 this.log('realtime onopen', 'Connected to WebSocket server.');
                 cb({ type: 'success', message: 'Connected to WebSocket server.' });
+                this._emit('realtimeOpen', { message: 'Connected to WebSocket server.' });
 
-                if (__current_socket_room) {
+                if (this.__current_socket_room) {
                     socket.send(JSON.stringify({
                         action: 'joinRoom',
-                        rid: __current_socket_room,
+                        rid: this.__current_socket_room,
                         token: this.session.accessToken.jwtToken
                     }));
                 }
@@ -136,12 +136,7 @@ export async function connectRealtime(cb: RealtimeCallback, delay = 50, reconnec
                     runInterval(); // Start interval
                 `;
 
-                // Create a Blob URL for the worker
-                const blob = new Blob([workerScript], { type: "application/javascript" });
-                __keepAliveInterval = new Worker(URL.createObjectURL(blob));
-
-                // Listen for messages from the worker
-                __keepAliveInterval.onmessage = (event) => {
+                const keepAlive = () => {
                     if (socket.readyState === 1) {
                         socket.send(JSON.stringify({
                             action: 'keepAlive'
@@ -149,6 +144,20 @@ export async function connectRealtime(cb: RealtimeCallback, delay = 50, reconnec
                     }
                 };
 
+                if (typeof Worker === 'undefined') {
+                    // no web worker (ex. node.js). timers are not throttled outside browsers
+                    let interval = setInterval(keepAlive, 15000);
+                    this.__keepAliveInterval = { terminate: () => clearInterval(interval) };
+                }
+                else {
+                    // Create a Blob URL for the worker
+                    const blob = new Blob([workerScript], { type: "application/javascript" });
+                    this.__keepAliveInterval = new Worker(URL.createObjectURL(blob));
+
+                    // Listen for messages from the worker
+                    this.__keepAliveInterval.onmessage = keepAlive;
+                }
+
                 resolve(socket);
             };
 
@@ -234,14 +243,14 @@ export async function connectRealtime(cb: RealtimeCallback, delay = 50, reconnec
                         let rtc = msg.message;
                         if (rtc.hungup) {
                             // otherside has hung up the call
-                            if (__caller_ringing[msg.sender_cid]) {
-                                __caller_ringing[msg.sender_cid](false);
-                                delete __caller_ringing[msg.sender_cid];
+                            if (this.__caller_ringing[msg.sender_cid]) {
+                                this.__caller_ringing[msg.sender_cid](false);
+                                delete this.__caller_ringing[msg.sender_cid];
                             }
-                            if (__receiver_ringing[msg.sender_cid]) {
-                                delete __receiver_ringing[msg.sender_cid];
+                            if (this.__receiver_ringing[msg.sender_cid]) {
+                                delete this.__receiver_ringing[msg.sender_cid];
                             }
-                            if (__peerConnection?.[msg.sender_cid]) {
+                            if (this.__peerConnection?.[msg.sender_cid]) {
                                 closeRTC.bind(this)({ cid: msg.sender_cid });
                             }
                             msg.type = 'rtc:closed';
@@ -253,18 +262,18 @@ export async function connectRealtime(cb: RealtimeCallback, delay = 50, reconnec
                         }
                         if (rtc.sdpoffer) {
                             answerSdpOffer.bind(this)(rtc.sdpoffer, msg.sender_cid);
-                            if (!__receiver_ringing[msg.sender_cid]) {
-                                __receiver_ringing[msg.sender_cid] = msg.sender_cid;
+                            if (!this.__receiver_ringing[msg.sender_cid]) {
+                                this.__receiver_ringing[msg.sender_cid] = msg.sender_cid;
                                 delete msg.message;
 
                                 msg.connectRTC = respondRTC.bind(this)(msg);
                                 msg.type = 'rtc:incoming';
                                 msg.hangup = (() => {
-                                    if (__peerConnection[msg.sender_cid]) {
+                                    if (this.__peerConnection[msg.sender_cid]) {
                                         closeRTC.bind(this)({ cid: msg.sender_cid });
                                     }
-                                    else if (__receiver_ringing[msg.sender_cid]) {
-                                        delete __receiver_ringing[msg.sender_cid];
+                                    else if (this.__receiver_ringing[msg.sender_cid]) {
+                                        delete this.__receiver_ringing[msg.sender_cid];
                                         socket.send(JSON.stringify({
                                             action: 'rtc',
                                             uid: msg.sender_cid,
@@ -279,16 +288,16 @@ export async function connectRealtime(cb: RealtimeCallback, delay = 50, reconnec
                         }
                         if (rtc.pickup) {
                             // receiver has answered the call
-                            if (__caller_ringing[msg.sender_cid]) {
-                                __caller_ringing[msg.sender_cid](true);
-                                delete __caller_ringing[msg.sender_cid];
+                            if (this.__caller_ringing[msg.sender_cid]) {
+                                this.__caller_ringing[msg.sender_cid](true);
+                                delete this.__caller_ringing[msg.sender_cid];
                             }
                         }
                         if (rtc.sdpanswer) {
-                            if (__peerConnection[msg.sender_cid]) {
+                            if (this.__peerConnection[msg.sender_cid]) {
                                 // receive answer from the receiver
-                                if (__peerConnection[msg.sender_cid].signalingState === 'have-local-offer') {
-                                    await __peerConnection[msg.sender_cid].setRemoteDescription(new RTCSessionDescription(rtc.sdpanswer));
+                                if (this.__peerConnection[msg.sender_cid].signalingState === 'have-local-offer') {
+                                    await this.__peerConnection[msg.sender_cid].setRemoteDescription(new RTCSessionDescription(rtc.sdpanswer));
                                 }
                                 else {
                                     throw new SkapiError(`Invalid signaling state.`, { code: 'INVALID_REQUEST' });
@@ -303,18 +312,21 @@ export async function connectRealtime(cb: RealtimeCallback, delay = 50, reconnec
             };
 
             socket.onclose = () => {
-                if (closedByIntention) {
+                if (this.__closedByIntention) {
                     this.log('realtime onclose', 'WebSocket connection closed.');
                     cb({ type: 'close', message: 'WebSocket connection closed.' });
+                    this._emit('realtimeClose', { message: 'WebSocket connection closed.', intentional: true });
                 }
                 else {
                     this.log('realtime onclose', 'WebSocket unexpected close.');
                     cb({ type: 'error', message: 'Skapi: WebSocket unexpected close.' });
+                    this._emit('realtimeClose', { message: 'WebSocket unexpected close.', intentional: false });
 
-                    reconnectAttempts++;
-                    if (reconnectAttempts < 3) {
-                        this.log('realtime onclose', 'Reconnecting to WebSocket server...' + reconnectAttempts);
-                        cb({ type: 'reconnect', message: 'Reconnecting to WebSocket server...' + reconnectAttempts });
+                    this.__reconnectAttempts++;
+                    if (this.__reconnectAttempts < 3) {
+                        this.log('realtime onclose', 'Reconnecting to WebSocket server...' + this.__reconnectAttempts);
+                        cb({ type: 'reconnect', message: 'Reconnecting to WebSocket server...' + this.__reconnectAttempts });
+                        this._emit('realtimeReconnect', { message: 'Reconnecting to WebSocket server...', attempt: this.__reconnectAttempts });
                         connectRealtime.bind(this)(cb, 3000, 'reconnect');
                     }
                     else {
@@ -352,15 +364,14 @@ export async function postRealtime(message: any, recipient: string, notification
     if (notification) {
         notification = validator.Params(
             notification,
-            {
-                config: {
-                    always: 'boolean'
-                },
-                title: 'string',
-                body: 'string'
-            },
-            ['title', 'body']
-        );
+            validator.schema.object({
+                config: validator.schema.object({
+                    always: validator.schema.boolean().nullable().optional()
+                }).nullable().optional(),
+                title: validator.schema.string().nullable(),
+                body: validator.schema.string().nullable()
+            })
+        ) as typeof notification;
         // stringify notification and check if size exceeds 3kb
         notificationStr = JSON.stringify({ title: notification.title, body: notification.body });
         let notificationSize = new Blob([notificationStr]).size;
@@ -384,7 +395,7 @@ export async function postRealtime(message: any, recipient: string, notification
 
         } catch (err) {
             this.log('postRealtime:err', { err });
-            if (__current_socket_room !== recipient) {
+            if (this.__current_socket_room !== recipient) {
                 throw new SkapiError(`User has not joined to the recipient group. Run joinRealtime({ group: "${recipient}" })`, { code: 'INVALID_REQUEST' });
             }
 
@@ -416,7 +427,7 @@ export async function joinRealtime(params: { group?: string | null }): Promise<{
     params = extractFormData(params, { nullIfEmpty: true }).data;
 
     let { group = null } = params;
-    if (!group && !__current_socket_room) {
+    if (!group && !this.__current_socket_room) {
         return { type: 'success', message: 'Left realtime message group.' }
     }
 
@@ -430,7 +441,7 @@ export async function joinRealtime(params: { group?: string | null }): Promise<{
         token: this.session.accessToken.jwtToken
     }));
 
-    __current_socket_room = group;
+    this.__current_socket_room = group;
 
     return { type: 'success', message: group ? `Joined realtime message group: "${group}".` : 'Left realtime message group.' }
 }
@@ -438,15 +449,15 @@ export async function joinRealtime(params: { group?: string | null }): Promise<{
 export async function getRealtimeUsers(params: { group: string, user_id?: string }, fetchOptions?: FetchOptions): Promise<DatabaseResponse<{ user_id: string; cid: string }[]>> {
     params = validator.Params(
         params,
-        {
-            user_id: (v: string) => validator.UserId(v, 'User ID in "user_id"'),
-            group: ['string', () => {
-                if (!__current_socket_room) {
+        validator.schema.object({
+            user_id: validator.schema.custom((v: string) => validator.UserId(v, 'User ID in "user_id"')).optional(),
+            group: validator.schema.string().nullable().default(() => {
+                if (!this.__current_socket_room) {
                     throw new SkapiError(`No group has been joined. Otherwise "group" is required.`, { code: 'INVALID_REQUEST' });
                 }
-                return __current_socket_room;
-            }]
-        }
+                return this.__current_socket_room;
+            })
+        })
     );
 
     let res = await request.bind(this)(
@@ -503,18 +514,18 @@ export async function getRealtimeGroups(
 
     params = validator.Params(
         params,
-        {
-            searchFor: ['group', 'number_of_users', () => 'group'],
-            value: ['string', 'number', () => {
+        validator.schema.object({
+            searchFor: validator.schema.literal('group', 'number_of_users').nullable().default('group'),
+            value: validator.schema.union(validator.schema.string(), validator.schema.number()).nullable().default(() => {
                 if (params?.searchFor && params?.searchFor === 'number_of_users') {
                     return 0;
                 }
 
                 return ' ';
-            }],
-            condition: ['>', '>=', '=', '<', '<=', '!=', 'gt', 'gte', 'eq', 'lt', 'lte', 'ne'],
-            range: ['string', 'number']
-        }
+            }),
+            condition: validator.schema.literal('>', '>=', '=', '<', '<=', '!=', 'gt', 'gte', 'eq', 'lt', 'lte', 'ne').nullable().optional(),
+            range: validator.schema.union(validator.schema.string(), validator.schema.number()).nullable().optional()
+        })
     );
 
     if (!params.condition) {
@@ -6,6 +6,7 @@ import SkapiError from '../main/error';
 import validator from '../utils/validator';
 import { request } from '../utils/network';
 import { extractFormData } from '../utils/utils';
+import { isInstanceOf } from '../utils/runtime';
 
 export async function clientSecretRequest(params: {
     url: string;
@@ -26,8 +27,8 @@ export async function clientSecretRequest(params: {
         }
     }
 
-    params = validator.Params(params, {
-        url: (v: string) => {
+    params = validator.Params(params, validator.schema.object({
+        url: validator.schema.custom((v: string) => {
             if (!v || typeof v !== 'string') {
                 throw new SkapiError('"url" should be type: <string>.', { code: 'INVALID_PARAMETER' });
             }
@@ -36,9 +37,9 @@ export async function clientSecretRequest(params: {
                 hasSecret = true;
             }
             return v;
-        },
-        clientSecretName: 'string',
-        method: (v: string) => {
+        }),
+        clientSecretName: validator.schema.string().nullable(),
+        method: validator.schema.custom((v: string) => {
             if (v && typeof v !== 'string') {
                 throw new SkapiError('"method" should be either "GET" or "POST" or "DELETE" or "PUT".', { code: 'INVALID_PARAMETER' });
             }
@@ -46,30 +47,30 @@ export async function clientSecretRequest(params: {
             if (lo !== 'get' && lo !== 'post' && lo !== 'delete' && lo !== 'put') {
                 throw new SkapiError('"method" should be either "GET" or "POST" or "DELETE" or "PUT".', { code: 'INVALID_PARAMETER' });
             }
-            return lo;
-        },
-        headers: (v: any) => {
+            return lo as string;
+        }),
+        headers: validator.schema.custom((v: any) => {
             if (v && typeof v !== 'object') {
                 throw new SkapiError('"headers" should be type: <object>.', { code: 'INVALID_PARAMETER' });
             }
             checkClientSecretPlaceholder(v);
             return v;
-        },
-        data: (v: any) => {
+        }).optional(),
+        data: validator.schema.custom((v: any) => {
             if (v && typeof v !== 'object') {
                 throw new SkapiError('"data" should be type: <object>.', { code: 'INVALID_PARAMETER' });
             }
             checkClientSecretPlaceholder(v);
             return v;
-        },
-        params: (v: any) => {
+        }).optional(),
+        params: validator.schema.custom((v: any) => {
             if (v && typeof v !== 'object') {
                 throw new SkapiError('"params" should be type: <object>.', { code: 'INVALID_PARAMETER' });
             }
             checkClientSecretPlaceholder(v);
             return v;
-        }
-    }, ['clientSecretName', 'method', 'url']);
+        }).optional()
+    })) as typeof params;
 
     if (!hasSecret) {
         throw new SkapiError(`At least one parameter value should include "$CLIENT_SECRET" in ${params.method.toLowerCase() === 'post' ? '"data"' : '"params"'} or "headers".`, { code: 'INVALID_PARAMETER' });
@@ -89,22 +90,15 @@ export async function sendInquiry(data: Form<{
 }>): Promise<"SUCCESS: Inquiry has been sent."> {
     await this.__connection;
 
-    let params = {
-        name: 'string',
-        email: v => {
+    data = validator.Params(data, validator.schema.object({
+        name: validator.schema.string().nullable(),
+        email: validator.schema.custom((v: string) => {
             validator.Email(v);
             return v;
-        },
-        subject: 'string',
-        message: 'string'
-    }
-
-    data = validator.Params(data, params, [
-        'name',
-        'email',
-        'subject',
-        'message'
-    ]);
+        }),
+        subject: validator.schema.string().nullable(),
+        message: validator.schema.string().nullable()
+    }));
 
     await request.bind(this)('send-inquiry', data);
 
@@ -118,10 +112,10 @@ export async function secureRequest<RequestParams = {
     data?: any;
     /** requests are sync when true */
     sync?: boolean;
-}, Response = { response: any; statusCode: number; url: string; }>(params: RequestParams[] | Form<RequestParams>, url?: string): Promise<Response | Response[]> {
+}, Response = { response: any; statusCode: number; url: string; }>(params: RequestParams[] | Form<RequestParams>, url?: string, options?: { signal?: AbortSignal; }): Promise<Response | Response[]> {
     await this.__connection;
 
-    if ((params instanceof FormData) || (params instanceof HTMLFormElement) || (params instanceof SubmitEvent)) {
+    if ((params instanceof FormData) || isInstanceOf(params, 'HTMLFormElement') || isInstanceOf(params, 'SubmitEvent')) {
         if (!url) {
             throw new SkapiError('Url string as a second argument is required when form is passed.', { code: 'INVALID_PARAMETER' });
         }
@@ -135,25 +129,25 @@ export async function secureRequest<RequestParams = {
         } as Form<RequestParams>
     }
 
-    let paramsStruct = {
-        url: (v: string) => {
-            return validator.Url(v);
-        },
-        data: v => v,
-        sync: ['boolean', () => true]
-    };
+    let paramsSchema = validator.schema.object({
+        url: validator.schema.custom((v: string) => {
+            return validator.Url(v) as string;
+        }).optional(),
+        data: validator.schema.any().optional(),
+        sync: validator.schema.boolean().nullable().default(true)
+    });
 
     if (Array.isArray(params)) {
         for (let r of params) {
-            r = validator.Params(r, paramsStruct);
+            validator.Params(r, paramsSchema);
         }
     }
 
     else {
-        params = validator.Params(params, paramsStruct);
+        params = validator.Params(params, paramsSchema) as Form<RequestParams>;
     }
 
-    return request.bind(this)('post-secure', params, { auth: true });
+    return request.bind(this)('post-secure', params, { auth: true, fetchOptions: options?.signal ? { signal: options.signal } : undefined });
 };
 
 export async function mock(
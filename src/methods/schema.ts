@@ -0,0 +1,203 @@
+import SkapiError from '../main/error';
+import { JsonSchema, SchemaType, TableSchema } from '../Types';
+import validator from '../utils/validator';
+import { request } from '../utils/network';
+
+// Client side table schemas.
+// Records posted to a table with a registered schema are validated before the request is sent.
+
+function typeOf(v: any): string {
+    if (v === null) {
+        return 'null';
+    }
+    if (Array.isArray(v)) {
+        return 'array';
+    }
+    if (typeof v === 'number') {
+        return Number.isInteger(v) ? 'integer' : 'number';
+    }
+    return typeof v;
+}
+
+function matchType(v: any, type: SchemaType): boolean {
+    let t = typeOf(v);
+    return t === type || type === 'number' && t === 'integer';
+}
+
+type Failure = { path: string; error: SkapiError; };
+
+function fail(failures: Failure[], path: string, message: string, messageId: string, messageParams: Record<string, any>) {
+    failures.push({ path, error: new SkapiError(message, { code: 'INVALID_PARAMETER', messageId, messageParams }) });
+}
+
+/** Adds every value that does not match the schema to failures, with the path of the value. */
+export function validateSchema(value: any, schema: JsonSchema, path: string, failures: Failure[]) {
+    if (!schema) {
+        return;
+    }
+
+    if (schema.type) {
+        let types = Array.isArray(schema.type) ? schema.type : [schema.type];
+        if (!types.some(t => matchType(value, t))) {
+            let type = types.length > 1 ? `<${types.join(' | ')}>` : types[0];
+            fail(failures, path, `"${path}" should be type: ${type}.`, 'type', { param: `"${path}"`, type });
+            return;
+        }
+    }
+
+    if (schema.enum && !schema.enum.includes(value)) {
+        fail(failures, path, `"${path}" should be one of: ${schema.enum.map(v => JSON.stringify(v)).join(', ')}.`, 'invalid', { param: `"${path}"` });
+    }
+
+    if (typeof value === 'string') {
+        if (typeof schema.minLength === 'number' && value.length < schema.minLength) {
+            fail(failures, path, `"${path}" should be at least ${schema.minLength} characters.`, 'min_length', { param: path, min: schema.minLength });
+        }
+        if (typeof schema.maxLength === 'number' && value.length > schema.maxLength) {
+            fail(failures, path, `"${path}" can be up to ${schema.maxLength} characters max.`, 'max_length', { param: path, max: schema.maxLength });
+        }
+        if (schema.pattern && !new RegExp(schema.pattern).test(value)) {
+            fail(failures, path, `"${path}" does not match the pattern: ${schema.pattern}.`, 'invalid', { param: `"${path}"` });
+        }
+    }
+
+    else if (typeof value === 'number') {
+        if (typeof schema.minimum === 'number' && value < schema.minimum) {
+            fail(failures, path, `"${path}" should be >= ${schema.minimum}.`, 'minimum', { param: path, min: schema.minimum });
+        }
+        if (typeof schema.maximum === 'number' && value > schema.maximum) {
+            fail(failures, path, `"${path}" should be <= ${schema.maximum}.`, 'maximum', { param: path, max: schema.maximum });
+        }
+    }
+
+    else if (Array.isArray(value)) {
+        if (typeof schema.minItems === 'number' && value.length < schema.minItems) {
+            fail(failures, path, `"${path}" should have at least ${schema.minItems} items.`, 'min_items', { param: path, min: schema.minItems });
+        }
+        if (typeof schema.maxItems === 'number' && value.length > schema.maxItems) {
+            fail(failures, path, `"${path}" can have up to ${schema.maxItems} items.`, 'max_items', { param: path, max: schema.maxItems });
+        }
+        if (schema.items) {
+            value.forEach((v, i) => validateSchema(v, schema.items, `${path}[${i}]`, failures));
+        }
+    }
+
+    else if (value && typeof value === 'object') {
+        for (let k of schema.required || []) {
+            if (value[k] === undefined) {
+                fail(failures, `${path}.${k}`, `"${path}.${k}" is required.`, 'required', { param: `${path}.${k}` });
+            }
+        }
+
+        for (let k in value) {
+            if (value[k] === undefined) {
+                continue;
+            }
+
+            let s = schema.properties?.[k];
+            if (s) {
+                validateSchema(value[k], s, `${path}.${k}`, failures);
+            }
+            else if (schema.additionalProperties === false) {
+                fail(failures, `${path}.${k}`, `"${path}.${k}" is not allowed.`, 'invalid', { param: `"${path}.${k}"` });
+            }
+            else if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+                validateSchema(value[k], schema.additionalProperties, `${path}.${k}`, failures);
+            }
+        }
+    }
+}
+
+/**
+ * Validates data, index and tags of the record to post against the schema of the table.
+ * Data is not validated on updates that does not change the data.
+ * Throws SkapiError of the first invalid field, with every invalid field in details.
+ */
+export function validateRecord(table: string, record: { record_id?: string; data?: any; index?: { name: string; value: any; }; tags?: string[]; }) {
+    let schema: TableSchema = this.__schemas[table];
+    if (!schema) {
+        return;
+    }
+
+    let failures: Failure[] = [];
+
+    if (schema.data && record.data !== undefined && !(record.record_id && record.data === null)) {
+        validateSchema(record.data, schema.data, 'data', failures);
+    }
+
+    if (schema.index) {
+        if (record.index) {
+            validateSchema(record.index.name, schema.index.name, 'index.name', failures);
+            validateSchema(record.index.value, schema.index.value, 'index.value', failures);
+        }
+        else if (schema.index.required && !record.record_id) {
+            fail(failures, 'index', '"index" is required.', 'required', { param: 'index' });
+        }
+    }
+
+    if (schema.tags && record.tags) {
+        validateSchema(record.tags, schema.tags, 'tags', failures);
+    }
+
+    if (failures.length) {
+        let err = failures[0].error;
+        err.details = failures.map(f => ({ path: f.path, code: f.error.messageId, message: f.error.message }));
+        throw err;
+    }
+}
+
+/** Registers the schema of the table. null removes the schema. */
+export function registerSchema(table: string, schema: TableSchema | null) {
+    if (!table || typeof table !== 'string') {
+        throw new SkapiError('"table" should be type: string.', { code: 'INVALID_PARAMETER', messageId: 'type', messageParams: { param: '"table"', type: 'string' } });
+    }
+
+    if (schema === null) {
+        delete this.__schemas[table];
+        return;
+    }
+
+    if (!schema || typeof schema !== 'object') {
+        throw new SkapiError('"schema" should be type: <TableSchema | null>.', { code: 'INVALID_PARAMETER', messageId: 'type', messageParams: { param: '"schema"', type: '<TableSchema | null>' } });
+    }
+
+    for (let k of ['data', 'index', 'tags']) {
+        if (schema[k] !== undefined && (!schema[k] || typeof schema[k] !== 'object')) {
+            throw new SkapiError(`"schema.${k}" should be type: object.`, { code: 'INVALID_PARAMETER', messageId: 'type', messageParams: { param: `"schema.${k}"`, type: 'object' } });
+        }
+    }
+
+    // schemas are sent as is to check-schema
+    this.__schemas[table] = JSON.parse(JSON.stringify(schema));
+}
+
+const checkSchemaParams = validator.schema.object({
+    table: validator.schema.string(),
+    data: validator.schema.any().optional(),
+    index: validator.schema.object({
+        name: validator.schema.string(),
+        value: validator.schema.any()
+    }).optional(),
+    tags: validator.schema.union(
+        validator.schema.string().transform(v => v.split(',').map(t => t.trim())),
+        validator.schema.array(validator.schema.string())
+    ).optional()
+});
+
+/**
+ * Validates the record against the registered schema of the table,
+ * then sends it to check-schema to be validated on the server where the service supports it.
+ */
+export async function checkSchema(params: { table: string; data?: Record<string, any>; index?: { name: string; value: any; }; tags?: string | string[]; }): Promise<any> {
+    await this.__connection;
+
+    let record = checkSchemaParams.parse(params);
+
+    if (!this.__schemas[record.table]) {
+        throw new SkapiError(`Schema of the table "${record.table}" is not registered.`, { code: 'NOT_EXISTS' });
+    }
+
+    validateRecord.bind(this)(record.table, record);
+
+    return request.bind(this)('check-schema', Object.assign({ schema: this.__schemas[record.table] }, record), { auth: !!this.__user });
+}
@@ -12,13 +12,13 @@ import { checkAdmin } from './user';
 import { normalizeRecord } from './database';
 import { extractFormData } from '../utils/utils';
 
-export async function getFeed(params?: { access_group?: number; }, fetchOptions?: FetchOptions): Promise<DatabaseResponse<RecordData>> {
+export async function getFeed<T = Record<string, any>>(params?: { access_group?: number; }, fetchOptions?: FetchOptions): Promise<DatabaseResponse<RecordData<T>>> {
     await this.__connection;
 
     params = validator.Params(
         params || {},
-        {
-            access_group: v => {
+        validator.schema.object({
+            access_group: validator.schema.custom(v => {
                 if(v === 'authorized') {
                     v = 1;
                 }
@@ -34,9 +34,9 @@ export async function getFeed(params?: { access_group?: number; }, fetchOptions?
                 if(v > this.__user.access_group) {
                     throw new SkapiError('User has no access.', { code: 'INVALID_REQUEST' });
                 }
-                return v;
-            }
-        }
+                return v as number;
+            }).optional()
+        })
     );
     let recs = await request.bind(this)('get-feed', params, { auth: true, fetchOptions });
     for (let i in recs.list) {
@@ -72,11 +72,11 @@ export async function getSubscriptions(
     get_email: boolean; // True when subscriber gets email
 }>> {
     params = extractFormData(params, { ignoreEmpty: true }).data as any;
-    params = validator.Params(params, {
-        subscriber: (v: string) => validator.UserId(v, 'User ID in "subscriber"'),
-        subscription: cannotBeSelfId.bind(this),
-        blocked: 'boolean'
-    });
+    params = validator.Params(params, validator.schema.object({
+        subscriber: validator.schema.custom((v: string) => validator.UserId(v, 'User ID in "subscriber"')).optional(),
+        subscription: validator.schema.custom<string>(cannotBeSelfId.bind(this)).optional(),
+        blocked: validator.schema.boolean().nullable().optional()
+    }));
 
     if (!params.subscriber && !params.subscription) {
         throw new SkapiError('At least either "subscriber" or "subscription" should have a value.', { code: 'INVALID_PARAMETER' });
@@ -114,17 +114,17 @@ export async function subscribe(params: { user_id: string; get_feed?: boolean; g
     get_email: boolean; // True when subscriber gets email
 }> {
     await this.__connection;
-    params = validator.Params(params, {
-        user_id: cannotBeSelfId.bind(this),
-        get_feed: ['boolean', ()=>false],
-        get_notified: ['boolean', ()=>false],
-        get_email: v => {
+    params = validator.Params(params, validator.schema.object({
+        user_id: validator.schema.custom<string>(cannotBeSelfId.bind(this)),
+        get_feed: validator.schema.boolean().nullable().default(false),
+        get_notified: validator.schema.boolean().nullable().default(false),
+        get_email: validator.schema.custom(v => {
             if (v && !this.__user.email || !this.__user.email_verified) {
                 throw new SkapiError('User has no verified email address.', { code: 'INVALID_REQUEST' });
             }
             return !!v;
-        }
-    }, ['user_id']);
+        }).optional()
+    }));
 
     let s = await request.bind(this)('subscription', {
         subscribe: params.user_id,
@@ -160,9 +160,9 @@ export async function adminNewsletterRequest(params) {
 
 export async function unsubscribe(params: { user_id: string; }): Promise<'SUCCESS: The user has unsubscribed.'> {
     await this.__connection;
-    let { user_id } = validator.Params(params, {
-        user_id: cannotBeSelfId.bind(this),
-    }, ['user_id']);
+    let { user_id } = validator.Params(params, validator.schema.object({
+        user_id: validator.schema.custom<string>(cannotBeSelfId.bind(this))
+    }));
 
     return await request.bind(this)('subscription', {
         unsubscribe: user_id,
@@ -171,17 +171,17 @@ export async function unsubscribe(params: { user_id: string; }): Promise<'SUCCES
 
 export async function blockSubscriber(params: { user_id: string; }): Promise<'SUCCESS: Blocked user ID "xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx".'> {
     await this.__connection;
-    let { user_id } = validator.Params(params, {
-        user_id: cannotBeSelfId.bind(this),
-    }, ['user_id']);
+    let { user_id } = validator.Params(params, validator.schema.object({
+        user_id: validator.schema.custom<string>(cannotBeSelfId.bind(this))
+    }));
     return await request.bind(this)('subscription', { block: user_id }, { auth: true });
 }
 
 export async function unblockSubscriber(params: { user_id: string; }): Promise<'SUCCESS: Unblocked user ID "xxxxxxxx-xxxx-xxxx-xxxx-xxxxxxxxxxxx".'> {
     await this.__connection;
-    let { user_id } = validator.Params(params, {
-        user_id: cannotBeSelfId.bind(this),
-    }, ['user_id']);
+    let { user_id } = validator.Params(params, validator.schema.object({
+        user_id: validator.schema.custom<string>(cannotBeSelfId.bind(this))
+    }));
     return await request.bind(this)('subscription', { unblock: user_id }, { auth: true });
 }
 
@@ -199,15 +199,15 @@ export async function getNewsletterSubscription(params: {
 
     params = validator.Params(
         params,
-        {
-            user_id: v => {
+        validator.schema.object({
+            user_id: validator.schema.custom(v => {
                 if (v !== this.__user.user_id && !isAdmin) {
                     throw new SkapiError(`No access.`, { code: 'INVALID_REQUEST' });
                 }
 
-                return v;
-            },
-            group: v => {
+                return v as string;
+            }).optional(),
+            group: validator.schema.custom(v => {
                 if (v === 'public') {
                     v = 0
                 }
@@ -217,9 +217,9 @@ export async function getNewsletterSubscription(params: {
                 if (typeof v !== 'number') {
                     throw new SkapiError('"group" should be type number | "public" | "authorized".', { code: 'INVALID_PARAMETER' })
                 }
-                return v;
-            }
-        }
+                return v as number;
+            }).optional()
+        })
     );
 
     let list = await request.bind(this)('get-newsletter-subscription', params, { auth: true });
@@ -272,17 +272,20 @@ export async function subscribeNewsletter(
 
     let params = validator.Params(
         form || {},
-        {
-            email: (v: string) => validator.Email(v),
-            group: ['number', 'public', 'authorized', 'admin', (v: string) => {
-                if (typeof v !== 'string' || v.length > 20 || !/^[a-zA-Z0-9]+$/.test(v)) {
-                    throw new SkapiError('"group" should be an alphanumeric string without spaces and less than 20 characters.', { code: 'INVALID_PARAMETER' });
-                }
-                return v;
-            }], 
-            redirect: (v: string) => validator.Url(v)
-        },
-        this.__user ? ['group'] : ['email', 'group']
+        validator.schema.object({
+            email: this.__user ? validator.schema.custom((v: string) => validator.Email(v)).optional() : validator.schema.custom((v: string) => validator.Email(v)),
+            group: validator.schema.union(
+                validator.schema.number(),
+                validator.schema.literal('public', 'authorized', 'admin'),
+                validator.schema.custom((v: string) => {
+                    if (typeof v !== 'string' || v.length > 20 || !/^[a-zA-Z0-9]+$/.test(v)) {
+                        throw new SkapiError('"group" should be an alphanumeric string without spaces and less than 20 characters.', { code: 'INVALID_PARAMETER' });
+                    }
+                    return v;
+                })
+            ).nullable(),
+            redirect: validator.schema.custom((v: string) => validator.Url(v) as string).optional()
+        })
     );
 
     return request.bind(this)(`subscribe-${this.__user ? '' : 'public-'}newsletter`, params, { auth: !!this.__user });
@@ -298,21 +301,20 @@ export async function registerNewsletterGroup(
 
     let params = validator.Params(
         form || {},
-        {
-            group: (v: string) => {
+        validator.schema.object({
+            group: validator.schema.custom((v: string) => {
                 if (typeof v !== 'string' || v.length > 20 || !/^[a-zA-Z0-9]+$/.test(v)) {
                     throw new SkapiError('"group" should be an alphanumeric string without spaces and less than 20 characters.', { code: 'INVALID_PARAMETER' });
                 }
                 return v;
-            },
-            restriction: (v: number) => {
+            }),
+            restriction: validator.schema.custom((v: number) => {
                 if (typeof v !== 'number' || v < 0 || v > 99) {
                     throw new SkapiError('"restriction" should be a number between 0 and 99.', { code: 'INVALID_PARAMETER' });
                 }
                 return v;
-            }
-        },
-        ['group', 'restriction']
+            })
+        })
     );
 
     return request.bind(this)('register-newsletter-group', params, { auth: true });
@@ -336,8 +338,8 @@ export async function unsubscribeNewsletter(
 
     params = validator.Params(
         params,
-        {
-            group: (v: number | string) => {
+        validator.schema.object({
+            group: validator.schema.custom((v: number | string) => {
                 if (typeof v === 'string') {
                     // Accept any string without validation
                     return v;
@@ -346,9 +348,8 @@ export async function unsubscribeNewsletter(
                     return v;
                 }
                 throw new SkapiError('"group" should be a number or a string.', { code: 'INVALID_PARAMETER' });
-            }
-        },
-        ['group']
+            })
+        })
     );
 
     let param_send = Object.assign({
@@ -400,16 +401,16 @@ export async function getNewsletters(
         group: 'public'
     };
 
-    params = validator.Params(params, {
-        searchFor: [
+    params = validator.Params(params, validator.schema.object({
+        searchFor: validator.schema.literal(
             "message_id",
             "timestamp",
             "subject",
             "complaint",
             "read",
             "bounced",
-        ],
-        value: (v: number | string) => {
+        ).nullable(),
+        value: validator.schema.custom((v: number | string) => {
             if (typeof v !== searchType[params.searchFor]) {
                 throw new SkapiError(`"value" type does not match the type of "${params.searchFor}" index.`, { code: 'INVALID_PARAMETER' });
             }
@@ -418,15 +419,15 @@ export async function getNewsletters(
             }
 
             return v;
-        },
-        range: (v: number | string) => {
+        }),
+        range: validator.schema.custom((v: number | string) => {
             if (!params.hasOwnProperty('value') || typeof v !== typeof params.value) {
                 throw new SkapiError('"range" should match type of "value".', { code: 'INVALID_PARAMETER' });
             }
             return v;
-        },
-        condition: ['>', '>=', '=', '<', '<=', 'gt', 'gte', 'eq', 'lt', 'lte', () => '='],
-        group: (x: number | string) => {
+        }).optional(),
+        condition: validator.schema.literal('>', '>=', '=', '<', '<=', 'gt', 'gte', 'eq', 'lt', 'lte').nullable().default('='),
+        group: validator.schema.custom((x: number | string) => {
             if (x === 'public') {
                 return 0;
             }
@@ -448,8 +449,8 @@ export async function getNewsletters(
             }
 
             throw new SkapiError('"group" should be type: number | "public" | "authorized".', { code: 'INVALID_PARAMETER' });
-        }
-    }, ['searchFor', 'value', 'group']);
+        })
+    })) as typeof params;
 
     let endpointTarget = params.group === 0 ? 'get-public-newsletters' : 'get-newsletters';
     let mails = await request.bind(this)(
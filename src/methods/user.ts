@@ -16,8 +16,8 @@ import {
 import validator from '../utils/validator';
 import { request, terminatePendingRequests } from '../utils/network';
 import { MD5, extractFormData, fromBase62, parseUserAttributes } from '../utils/utils';
+import { clearCache } from '../utils/cache';
 
-let cognitoUser: CognitoUser | null = null;
 
 function map_ticket_obj(t): {
     ticket_id?: string;
@@ -255,6 +255,7 @@ function refreshSession(session, cognitoUser) {
                 rej(refreshErr);
             }
             else if (refreshedSession.isValid()) {
+                this._emit('tokenRefresh', { session: refreshedSession });
                 res(refreshedSession);
             }
             else {
@@ -270,11 +271,14 @@ export function authentication() {
 
     const getUserProfile = (): UserProfile => {
         // get users updated attribute
-        let attr = cognitoUser.getSignInUserSession().getIdToken().payload || null;
+        let attr = this.__cognitoUser.getSignInUserSession().getIdToken().payload || null;
 
         // parse attribute structure: [ { Name, Value }, ... ]
         let user = parseUserAttributes(attr);
         this.log('normalized user attribute', user);
+        if (this.__user && this.__user.user_id !== user.user_id) {
+            clearCache.bind(this)();
+        }
         this.__user = user;
         return user;
     };
@@ -288,10 +292,10 @@ export function authentication() {
                 skipUserUpdateEventTrigger = false;
             }
 
-            cognitoUser = this.userPool.getCurrentUser();
+            this.__cognitoUser = this.userPool.getCurrentUser();
 
-            if (!cognitoUser) {
-                this.log('getSession:cognitoUser', cognitoUser);
+            if (!this.__cognitoUser) {
+                this.log('getSession:cognitoUser', this.__cognitoUser);
                 // no user session. wasn't logged in.
                 _out.bind(this)();
                 rej(null);
@@ -316,7 +320,7 @@ export function authentication() {
                 return this.session;
             }
 
-            cognitoUser.getSession((err: any, session: CognitoUserSession) => {
+            this.__cognitoUser.getSession((err: any, session: CognitoUserSession) => {
                 this.log('getSession:getSessionCallback', { err, session });
                 if (!session) {
                     _out.bind(this)();
@@ -325,7 +329,7 @@ export function authentication() {
                 }
 
                 if (err) {
-                    refreshSession.bind(this)(session, cognitoUser).then(r => res(respond(r))).catch(rej);
+                    refreshSession.bind(this)(session, this.__cognitoUser).then(r => res(respond(r))).catch(rej);
                     return;
                 }
 
@@ -340,7 +344,7 @@ export function authentication() {
                 // try refresh when invalid token
                 // when on updateProfile, it will always refreshToken
                 if (isExpired || refreshToken || !session.isValid()) {
-                    refreshSession.bind(this)(session, cognitoUser).then(r => res(respond(r))).catch(rej);
+                    refreshSession.bind(this)(session, this.__cognitoUser).then(r => res(respond(r))).catch(rej);
                 }
                 else {
                     try {
@@ -385,7 +389,7 @@ export function authentication() {
                         // auto confirm - (setting password from admin created account)
                         initUser.cognitoUser.completeNewPasswordChallenge(password, {}, {
                             onSuccess: _ => {
-                                cognitoUser = initUser.cognitoUser;
+                                this.__cognitoUser = initUser.cognitoUser;
                                 getSession().then(session => res(this.user));
                             },
                             onFailure: (err: any) => {
@@ -492,10 +496,10 @@ export async function getProfile(options?: { refreshToken: boolean; }): Promise<
 export async function openIdLogin(params: { token: string; id: string; merge?: boolean | string[] }): Promise<{ userProfile: UserProfile; openid: { [attribute: string]: string } }> {
     await this.__connection;
 
-    params = validator.Params(params, {
-        token: 'string',
-        id: 'string',
-        merge: v => {
+    params = validator.Params(params, validator.schema.object({
+        token: validator.schema.string().nullable().optional(),
+        id: validator.schema.string().nullable().optional(),
+        merge: validator.schema.custom(v => {
             if (v === undefined) return false;
             if (typeof v === 'string') {
                 return [v]
@@ -510,9 +514,9 @@ export async function openIdLogin(params: { token: string; id: string; merge?: b
             if (typeof v !== 'boolean' && !Array.isArray(v)) {
                 throw new SkapiError('"merge" should be type: <boolean | string[]>.', { code: 'INVALID_PARAMETER' });
             }
-            return v;
-        }
-    });
+            return v as boolean | string[];
+        }).optional()
+    })) as typeof params;
 
     let oplog = await request.bind(this)("openid-logger", params);
     let logger = oplog.logger.split('#');
@@ -537,11 +541,12 @@ export async function checkAdmin() {
 
 export async function _out(global: boolean = false) {
     let toReturn = null;
+    let wasLoggedIn = !!(this.session || this.__user);
     
-    if (cognitoUser) {
+    if (this.__cognitoUser) {
         if (global) {
             toReturn = new Promise((res, rej) => {
-                cognitoUser.globalSignOut({
+                this.__cognitoUser.globalSignOut({
                     onSuccess: (result: any) => {
                         this.log('globalSignOut:success', result);
                         res(result);
@@ -554,14 +559,12 @@ export async function _out(global: boolean = false) {
             });
         }
         else {
-            cognitoUser.signOut();
+            this.__cognitoUser.signOut();
         }
     }
 
     let to_be_erased = {
         'session': null,
-        '__startKeyHistory': {},
-        '__cached_requests': {},
         '__user': null
     };
 
@@ -573,9 +576,16 @@ export async function _out(global: boolean = false) {
         this[k] = to_be_erased[k];
     }
 
+    // cached responses may hold private data of the user
+    clearCache.bind(this)();
+
     this._runOnUserUpdateListeners(null);
     this._runOnLoginListeners(null);
 
+    if (wasLoggedIn) {
+        this._emit('logout', { global });
+    }
+
     return toReturn;
 }
 
@@ -630,11 +640,11 @@ export async function login(
         /** Password for signin. Should be at least 6 characters. */
         password: string;
     }>): Promise<UserProfile> {
-    let params = validator.Params(form, {
-        username: 'string',
-        email: 'string',
-        password: 'string'
-    }, ['password']);
+    let params = validator.Params(form, validator.schema.object({
+        username: validator.schema.string().nullable().optional(),
+        email: validator.schema.string().nullable().optional(),
+        password: validator.schema.string().nullable()
+    }));
 
     await this.__authConnection;
 
@@ -659,6 +669,46 @@ export async function login(
     // NOT_EXISTS: the account does not exist.
 }
 
+const signupParams = validator.schema.object({
+    username: validator.schema.string().nullable().optional(),
+    password: validator.schema.custom((v: string) => validator.Password(v)),
+
+    email: validator.schema.custom((v: string) => validator.Email(v)),
+    name: validator.schema.string().nullable().optional(),
+    address: validator.schema.custom((v: any) => {
+        if (!v) return '';
+
+        if (typeof v === 'string') {
+            return v;
+        }
+
+        if (typeof v === 'object') {
+            return JSON.stringify(v);
+        }
+
+        return undefined;
+    }).optional(),
+    gender: validator.schema.string().nullable().optional(),
+    birthdate: validator.schema.custom((v: string) => v ? validator.Birthdate(v) : "").optional(),
+    phone_number: validator.schema.custom((v: string) => v ? validator.PhoneNumber(v) : "").optional(),
+
+    email_public: validator.schema.boolean().nullable().default(false),
+    address_public: validator.schema.boolean().nullable().default(false),
+    gender_public: validator.schema.boolean().nullable().default(false),
+    birthdate_public: validator.schema.boolean().nullable().default(false),
+    phone_number_public: validator.schema.boolean().nullable().default(false),
+    access_group: validator.schema.number().nullable().optional(), // v=>{if(v > 0 && v < 100) return v else throw SkapiError(...)}
+    misc: validator.schema.string().nullable().optional(),
+
+    picture: validator.schema.custom((v: string) => { if (v) return validator.Url(v); else return "" }).optional(),
+    profile: validator.schema.custom((v: string) => { if (v) return validator.Url(v); else return "" }).optional(),
+    family_name: validator.schema.string().nullable().optional(),
+    given_name: validator.schema.string().nullable().optional(),
+    middle_name: validator.schema.string().nullable().optional(),
+    nickname: validator.schema.string().nullable().optional(),
+    website: validator.schema.custom((v: string) => { if (v) return validator.Url(v); else return "" }).optional(),
+});
+
 export async function signup(
     form: Form<UserAttributes & { email: String; password: String; username?: string; }>,
     option?: {
@@ -669,53 +719,13 @@ export async function signup(
 
     await this.__authConnection;
 
-    let paramRestrictions = {
-        username: 'string',
-        password: (v: string) => validator.Password(v),
-
-        email: (v: string) => validator.Email(v),
-        name: 'string',
-        address: (v: any) => {
-            if (!v) return '';
-
-            if (typeof v === 'string') {
-                return v;
-            }
-
-            if (typeof v === 'object') {
-                return JSON.stringify(v);
-            }
-
-            return undefined;
-        },
-        gender: 'string',
-        birthdate: (v: string) => v ? validator.Birthdate(v) : "",
-        phone_number: (v: string) => v ? validator.PhoneNumber(v) : "",
-
-        email_public: ['boolean', () => false],
-        address_public: ['boolean', () => false],
-        gender_public: ['boolean', () => false],
-        birthdate_public: ['boolean', () => false],
-        phone_number_public: ['boolean', () => false],
-        access_group: 'number', // v=>{if(v > 0 && v < 100) return v else throw SkapiError(...)}
-        misc: 'string',
-
-        picture: (v: string) => { if (v) return validator.Url(v); else return "" },
-        profile: (v: string) => { if (v) return validator.Url(v); else return "" },
-        family_name: 'string',
-        given_name: 'string',
-        middle_name: 'string',
-        nickname: 'string',
-        website: (v: string) => { if (v) return validator.Url(v); else return "" },
-    };
-
-    let params = validator.Params(form || {}, paramRestrictions, ['email', 'password']);
+    let params = validator.Params(form || {}, signupParams);
 
     // always logout before creating an account (for users)
     await logout.bind(this)();
 
-    option = validator.Params(option || {}, {
-        email_subscription: (v: boolean) => {
+    option = validator.Params(option || {}, validator.schema.object({
+        email_subscription: validator.schema.custom((v: boolean) => {
             if (typeof v !== 'boolean') {
                 throw new SkapiError('"option.email_subscription" should be type: <boolean>.', { code: 'INVALID_PARAMETER' });
             }
@@ -724,8 +734,8 @@ export async function signup(
                 throw new SkapiError('"option.signup_confirmation" is required for email subscription.', { code: 'INVALID_PARAMETER' });
             }
             return v;
-        },
-        signup_confirmation: (v: string | boolean) => {
+        }).optional(),
+        signup_confirmation: validator.schema.custom((v: string | boolean) => {
             let value = v;
             if (typeof v === 'string') {
                 value = validator.Url(v);
@@ -742,8 +752,8 @@ export async function signup(
             }
 
             return value;
-        },
-        login: (v: boolean) => {
+        }).optional(),
+        login: validator.schema.custom((v: boolean) => {
             if (typeof v === 'boolean') {
                 if (option.signup_confirmation && v) {
                     throw new SkapiError('"login" is not allowed when "option.signup_confirmation" is true.', { code: 'INVALID_PARAMETER' });
@@ -751,22 +761,22 @@ export async function signup(
                 return v;
             }
             throw new SkapiError('"option.login" should be type: boolean.', { code: 'INVALID_PARAMETER' });
-        }
-    });
+        }).optional()
+    }));
 
     let logUser = option?.login || false;
 
-    params.signup_confirmation = option?.signup_confirmation || false;;
-    params.email_subscription = option?.email_subscription || false;
+    let signup_confirmation = option?.signup_confirmation || false;
+    let email_subscription = option?.email_subscription || false;
 
-    if (params.email_public && !params.signup_confirmation) {
+    if (params.email_public && !signup_confirmation) {
         throw new SkapiError('"option.signup_confirmation" should be true if "email_public" is set to true.', { code: 'INVALID_PARAMETER' });
     }
 
     // cognito signup process below
 
-    params.service = this.service;
-    params.owner = this.owner;
+    // values of the cognito attributes
+    let attributes: Record<string, any> = Object.assign({}, params, { service: this.service, owner: this.owner });
 
     // user creating account
     let newUser = authentication.bind(this)().createCognitoUser(params.username || params.email);
@@ -776,17 +786,17 @@ export async function signup(
         'gender_public',
         'birthdate_public',
         'phone_number_public']) {
-        params[k] = params[k] ? '1' : '0';
+        attributes[k] = attributes[k] ? '1' : '0';
     }
 
-    if (params.access_group) {
-        params.access_group = params.access_group.toString();
+    if (attributes.access_group) {
+        attributes.access_group = attributes.access_group.toString();
     }
 
     let signup_key = (await request.bind(this)('signupkey', {
         username: newUser.cognitoUsername,
-        signup_confirmation: typeof params.signup_confirmation === 'boolean' ? JSON.stringify(params.signup_confirmation) : params.signup_confirmation,
-        email_subscription: params.email_subscription,
+        signup_confirmation: typeof signup_confirmation === 'boolean' ? JSON.stringify(signup_confirmation) : signup_confirmation,
+        email_subscription,
     })).split(':');
 
     let signup_ticket = signup_key.slice(1).join(':');
@@ -806,7 +816,7 @@ export async function signup(
         })
     ];
 
-    for (let k in paramRestrictions) {
+    for (let k of Object.keys(signupParams.shape).concat(['service', 'owner'])) {
         let customParams = [
             'email_public',
             'address_public',
@@ -817,7 +827,7 @@ export async function signup(
             'service',
             'owner'
         ];
-        if (params[k] === "") {
+        if (attributes[k] === "") {
             continue;
         }
 
@@ -828,21 +838,21 @@ export async function signup(
         if (customParams.includes(k)) {
             attributeList.push(new CognitoUserAttribute({
                 Name: 'custom:' + k,
-                Value: params[k]
+                Value: attributes[k]
             }));
         }
         else {
             attributeList.push(new CognitoUserAttribute({
                 Name: k,
-                Value: params[k]
+                Value: attributes[k]
             }));
         }
     }
 
     await authentication.bind(this)().signup(newUser.cognitoUsername, params.password, attributeList);
 
-    if (params.signup_confirmation) {
-        cognitoUser = newUser.cognitoUser;
+    if (signup_confirmation) {
+        this.__cognitoUser = newUser.cognitoUser;
         this.__request_signup_confirmation = newUser.cognitoUsername;
         return "SUCCESS: The account has been created. User's signup confirmation is required.";
     }
@@ -869,11 +879,11 @@ export async function resetPassword(form: Form<{
 
     await this.__connection;
 
-    let params = validator.Params(form, {
-        email: (v: string) => validator.Email(v),
-        code: ['number', 'string'],
-        new_password: (v: string) => validator.Password(v)
-    }, ['email', 'code', 'new_password']);
+    let params = validator.Params(form, validator.schema.object({
+        email: validator.schema.custom((v: string) => validator.Email(v)),
+        code: validator.schema.union(validator.schema.number(), validator.schema.string()).nullable(),
+        new_password: validator.schema.custom((v: string) => validator.Password(v))
+    }));
 
     let code = params.code, new_password = params.new_password;
 
@@ -899,7 +909,7 @@ async function verifyAttribute(attribute: string, form: Form<{ code: string; }>)
     await this.__connection;
     let code: string;
 
-    if (!cognitoUser) {
+    if (!this.__cognitoUser) {
         throw new SkapiError('The user has to be logged in.', { code: 'INVALID_REQUEST' });
     }
 
@@ -912,9 +922,9 @@ async function verifyAttribute(attribute: string, form: Form<{ code: string; }>)
             return `SUCCESS: "${attribute}" is verified.`;
         }
 
-        code = (form ? validator.Params(form, {
-            code: ['string']
-        }) : {}).code || '';
+        code = (form ? validator.Params(form, validator.schema.object({
+            code: validator.schema.string().nullable().optional()
+        })).code : '') || '';
     }
     else {
         return;
@@ -953,11 +963,11 @@ async function verifyAttribute(attribute: string, form: Form<{ code: string; }>)
         };
 
         if (code) {
-            cognitoUser?.verifyAttribute(attribute, code, callback);
+            this.__cognitoUser?.verifyAttribute(attribute, code, callback);
         }
         else {
             callback.inputVerificationCode = null;
-            cognitoUser?.getAttributeVerificationCode(attribute, callback);
+            this.__cognitoUser?.getAttributeVerificationCode(attribute, callback);
         }
     });
 }
@@ -980,9 +990,9 @@ export async function forgotPassword(
 
     await this.__connection;
 
-    let params = validator.Params(form, {
-        email: (v: string) => validator.Email(v)
-    }, ['email']);
+    let params = validator.Params(form, validator.schema.object({
+        email: validator.schema.custom((v: string) => validator.Email(v))
+    }));
 
     return new Promise(async (res, rej) => {
         let cognitoUser = authentication.bind(this)().createCognitoUser(params.email).cognitoUser;
@@ -1006,10 +1016,10 @@ export async function changePassword(params: {
         throw new SkapiError('User login is required.', { code: 'INVALID_REQUEST' });
     }
 
-    let p = validator.Params(params, {
-        'current_password': 'string',
-        'new_password': 'string'
-    });
+    let p = validator.Params(params, validator.schema.object({
+        'current_password': validator.schema.string().nullable().optional(),
+        'new_password': validator.schema.string().nullable().optional()
+    }));
 
     if (!p?.current_password) {
         throw new SkapiError('"current_password" is required to change password.', { code: 'INVALID_PARAMETER' });
@@ -1023,7 +1033,7 @@ export async function changePassword(params: {
     validator.Password(p.new_password);
 
     return new Promise((res, rej) => {
-        cognitoUser.changePassword(
+        this.__cognitoUser.changePassword(
             p.current_password,
             p.new_password,
             (err: any, result: any) => {
@@ -1047,47 +1057,49 @@ export async function changePassword(params: {
     });
 }
 
+const profileParams = validator.schema.object({
+    user_id: validator.schema.custom((v: string) => validator.UserId(v)).optional(),
+    email: validator.schema.custom((v: string) => validator.Email(v)).optional(),
+    address: validator.schema.custom((v: any) => {
+        if (!v) return '';
+
+        if (typeof v === 'string') {
+            return v;
+        }
+
+        if (typeof v === 'object') {
+            return JSON.stringify(v);
+        }
+
+        return undefined;
+    }).optional(),
+    name: validator.schema.string().nullable().optional(),
+    gender: validator.schema.string().nullable().optional(),
+    birthdate: validator.schema.custom((v: string) => v ? validator.Birthdate(v) : "").optional(),
+    phone_number: validator.schema.custom((v: string) => v ? validator.PhoneNumber(v) : "").optional(),
+    email_public: validator.schema.boolean().nullable().optional(),
+    phone_number_public: validator.schema.boolean().nullable().optional(),
+    address_public: validator.schema.boolean().nullable().optional(),
+    gender_public: validator.schema.boolean().nullable().optional(),
+    birthdate_public: validator.schema.boolean().nullable().optional(),
+    misc: validator.schema.string().nullable().optional(),
+
+    picture: validator.schema.custom((v: string) => v ? validator.Url(v) : "").optional(),
+    profile: validator.schema.custom((v: string) => v ? validator.Url(v) : "").optional(),
+    family_name: validator.schema.string().nullable().optional(),
+    given_name: validator.schema.string().nullable().optional(),
+    middle_name: validator.schema.string().nullable().optional(),
+    nickname: validator.schema.string().nullable().optional(),
+    website: validator.schema.custom((v: string) => v ? validator.Url(v) : "").optional(),
+});
+
 export async function updateProfile(form: Form<UserAttributes>): Promise<UserProfile> {
     await this.__connection;
     if (!this.session) {
         throw new SkapiError('User login is required.', { code: 'INVALID_REQUEST' });
     }
 
-    let params = validator.Params(form || {}, {
-        user_id: (v: string) => validator.UserId(v),
-        email: (v: string) => validator.Email(v),
-        address: (v: any) => {
-            if (!v) return '';
-
-            if (typeof v === 'string') {
-                return v;
-            }
-
-            if (typeof v === 'object') {
-                return JSON.stringify(v);
-            }
-
-            return undefined;
-        },
-        name: 'string',
-        gender: 'string',
-        birthdate: (v: string) => v ? validator.Birthdate(v) : "",
-        phone_number: (v: string) => v ? validator.PhoneNumber(v) : "",
-        email_public: 'boolean',
-        phone_number_public: 'boolean',
-        address_public: 'boolean',
-        gender_public: 'boolean',
-        birthdate_public: 'boolean',
-        misc: 'string',
-
-        picture: (v: string) => v ? validator.Url(v) : "",
-        profile: (v: string) => v ? validator.Url(v) : "",
-        family_name: 'string',
-        given_name: 'string',
-        middle_name: 'string',
-        nickname: 'string',
-        website: (v: string) => v ? validator.Url(v) : "",
-    });
+    let params = validator.Params(form || {}, profileParams);
 
     if (params && typeof params === 'object' && !Object.keys(params).length) {
         return this.user;
@@ -1165,7 +1177,7 @@ export async function updateProfile(form: Form<UserAttributes>): Promise<UserPro
         }
 
         await new Promise((res, rej) => {
-            cognitoUser?.updateAttributes(
+            this.__cognitoUser?.updateAttributes(
                 toSet,
                 (err: any, result: any) => {
                     if (err) {
@@ -1240,10 +1252,28 @@ export async function getUsers(
         'approved': 'string'
     };
 
-    let required = ['searchFor', 'value'];
+    let typed = (v: any, name: string) => {
+        let checker = searchForTypes[params.searchFor];
+        if (typeof checker === 'function') {
+            return checker(v);
+        }
+
+        else if (typeof v !== checker) {
+            throw new SkapiError(`${name} does not match the type of "${params.searchFor}" index.`, { code: 'INVALID_PARAMETER' });
+        }
+
+        return v;
+    };
+
+    let indexValue = validator.schema.union(
+        validator.schema.string(),
+        validator.schema.number(),
+        validator.schema.boolean(),
+        validator.schema.array(validator.schema.string())
+    );
 
-    params = validator.Params(params, {
-        searchFor: [
+    params = validator.Params(params, validator.schema.object({
+        searchFor: validator.schema.literal(
             'user_id',
             'name',
             'email',
@@ -1256,33 +1286,11 @@ export async function getUsers(
             'timestamp',
             'access_group',
             'approved'
-        ],
-        condition: ['>', '>=', '=', '<', '<=', 'gt', 'gte', 'eq', 'lt', 'lte', () => '='],
-        value: (v: any) => {
-            let checker = searchForTypes[params.searchFor];
-            if (typeof checker === 'function') {
-                return checker(v);
-            }
-
-            else if (typeof v !== checker) {
-                throw new SkapiError(`Value does not match the type of "${params.searchFor}" index.`, { code: 'INVALID_PARAMETER' });
-            }
-
-            return v;
-        },
-        range: (v: any) => {
-            let checker = searchForTypes[params.searchFor];
-            if (typeof checker === 'function') {
-                return checker(v);
-            }
-
-            else if (typeof v !== checker) {
-                throw new SkapiError(`Range does not match the type of "${params.searchFor}" index.`, { code: 'INVALID_PARAMETER' });
-            }
-
-            return v;
-        }
-    }, required);
+        ),
+        condition: validator.schema.literal('>', '>=', '=', '<', '<=', 'gt', 'gte', 'eq', 'lt', 'lte').nullable().default('='),
+        value: indexValue.transform(v => typed(v, 'Value')),
+        range: indexValue.transform(v => typed(v, 'Range')).optional()
+    }));
 
     if (params?.condition && params?.condition !== '=' && params.hasOwnProperty('range')) {
         throw new SkapiError('Conditions does not apply on range search.', { code: 'INVALID_PARAMETER' });
@@ -1336,10 +1344,10 @@ export async function requestUsernameChange(params: {
 }): Promise<'SUCCESS: confirmation e-mail has been sent.'> {
     await this.__connection;
 
-    params = validator.Params(params, {
-        username: validator.Email,
-        redirect: validator.Url
-    }, ['username']);
+    params = validator.Params(params, validator.schema.object({
+        username: validator.schema.custom((v: string) => validator.Email(v)),
+        redirect: validator.schema.custom((v: string) => validator.Url(v) as string).optional()
+    }));
 
     return await request.bind(this)('request-username-change', params, { auth: true });
 }
\ No newline at end of file
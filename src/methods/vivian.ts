@@ -2,11 +2,11 @@ import { request } from '../utils/network';
 import validator from '../utils/validator';
 export async function spellcast(params){
     await this.__connection;
-    params = validator.Params(params, {
-        'spell': 'string',
-        'name': 'string',
-        'magic': 'object'
-    }, ['spell', 'name'])
+    params = validator.Params(params, validator.schema.object({
+        'spell': validator.schema.string().nullable(),
+        'name': validator.schema.string().nullable(),
+        'magic': validator.schema.object({}, { passthrough: true }).nullable().optional()
+    }))
 
     let response = await request.bind(this)('castspell', params);
     return response;
@@ -14,11 +14,11 @@ export async function spellcast(params){
 
 export async function getspell(params){
     await this.__connection;
-    params = validator.Params(params, {
-        'search_option': ['spell', 'name'],
-        'value': 'string',
-        'condition': ['starts_with', 'exact']
-    }, ['search_option', 'value', 'condition'])
+    params = validator.Params(params, validator.schema.object({
+        'search_option': validator.schema.literal('spell', 'name').nullable(),
+        'value': validator.schema.string().nullable(),
+        'condition': validator.schema.literal('starts_with', 'exact').nullable()
+    }))
 
     let response = await request.bind(this)('getspell', params);
     return response;
@@ -26,10 +26,10 @@ export async function getspell(params){
 
 export async function dopamine(params){
     await this.__connection;
-    params = validator.Params(params, {
-        'message': 'string',
-        'name': 'string'
-    }, ['message', 'name'])
+    params = validator.Params(params, validator.schema.object({
+        'message': validator.schema.string().nullable(),
+        'name': validator.schema.string().nullable()
+    }))
     
     let response = await request.bind(this)('dopamine', params, {auth: true});
     
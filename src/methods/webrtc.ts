@@ -3,15 +3,6 @@ import { RTCResolved, RTCEvent, RTCConnectorParams, RTCReceiverParams, WebSocket
 import { extractFormData } from "../utils/utils";
 import validator from "../utils/validator";
 
-export const __peerConnection: { [sender: string]: RTCPeerConnection } = {};
-export const __dataChannel: { [sender: string]: { [label: string]: RTCDataChannel } } = {};
-export const __caller_ringing: { [recipient: string]: (v: any) => void } = {};
-export const __receiver_ringing: { [caller: string]: string } = {};
-export const __rtcEvents: { [sender: string]: (v: any) => void } = {};
-
-let __rtcCandidatesBuffer: { [sender: string]: any[] } = {};
-let __rtcSdpOfferBuffer: { [sender: string]: any[] } = {};
-
 function setBuffer(buffer: { [recipient: string]: any[] }, recipient: string, item: any) {
     if (!buffer[recipient]) {
         buffer[recipient] = [];
@@ -44,9 +35,9 @@ export async function answerSdpOffer(offer: any, recipient: string) {
     let socket: WebSocket = await this.__socket;
     async function sendAnswer(offer, recipient, socket) {
         this.log('answerSdpOffer from', recipient);
-        await __peerConnection[recipient].setRemoteDescription(new RTCSessionDescription(offer));
-        const answer = await __peerConnection[recipient].createAnswer();
-        await __peerConnection[recipient].setLocalDescription(answer);
+        await this.__peerConnection[recipient].setRemoteDescription(new RTCSessionDescription(offer));
+        const answer = await this.__peerConnection[recipient].createAnswer();
+        await this.__peerConnection[recipient].setLocalDescription(answer);
         socket.send(JSON.stringify({
             action: 'rtc',
             uid: recipient,
@@ -55,39 +46,39 @@ export async function answerSdpOffer(offer: any, recipient: string) {
         }));
     }
 
-    if (__peerConnection?.[recipient]) {
+    if (this.__peerConnection?.[recipient]) {
         if (!offer) {
-            await processBuffer(__rtcSdpOfferBuffer, recipient, (offer) => sendAnswer.bind(this)(offer, recipient, socket)); // process all buffered sdp offers
+            await processBuffer(this.__rtcSdpOfferBuffer, recipient, (offer) => sendAnswer.bind(this)(offer, recipient, socket)); // process all buffered sdp offers
         }
         else {
-            await processBuffer(__rtcSdpOfferBuffer, recipient, (offer) => sendAnswer.bind(this)(offer, recipient, socket)); // process all buffered sdp offers first
+            await processBuffer(this.__rtcSdpOfferBuffer, recipient, (offer) => sendAnswer.bind(this)(offer, recipient, socket)); // process all buffered sdp offers first
             await sendAnswer.bind(this)(offer, recipient, socket);
         }
     }
     else {
         if (offer) {
-            setBuffer(__rtcSdpOfferBuffer, recipient, offer);
+            setBuffer(this.__rtcSdpOfferBuffer, recipient, offer);
         }
     }
 }
 
 export async function receiveIceCandidate(candidate: any, recipient: string) {
     this.log('receiveIceCandidate', candidate);
-    if (__peerConnection?.[recipient] && __peerConnection[recipient]?.remoteDescription && __peerConnection[recipient]?.remoteDescription?.type) {
+    if (this.__peerConnection?.[recipient] && this.__peerConnection[recipient]?.remoteDescription && this.__peerConnection[recipient]?.remoteDescription?.type) {
         if (!candidate) {
-            return processBuffer(__rtcCandidatesBuffer, recipient, (candidate) => __peerConnection[recipient].addIceCandidate(candidate)); // process all buffered candidates
+            return processBuffer(this.__rtcCandidatesBuffer, recipient, (candidate) => this.__peerConnection[recipient].addIceCandidate(candidate)); // process all buffered candidates
         }
-        await processBuffer(__rtcCandidatesBuffer, recipient, (candidate) => __peerConnection[recipient].addIceCandidate(candidate)); // process all buffered candidates
-        await __peerConnection[recipient].addIceCandidate(candidate);
+        await processBuffer(this.__rtcCandidatesBuffer, recipient, (candidate) => this.__peerConnection[recipient].addIceCandidate(candidate)); // process all buffered candidates
+        await this.__peerConnection[recipient].addIceCandidate(candidate);
     }
     else {
-        setBuffer(__rtcCandidatesBuffer, recipient, candidate);
+        setBuffer(this.__rtcCandidatesBuffer, recipient, candidate);
     }
 }
 
 export async function closeRTC(params: { cid?: string; close_all?: boolean }): Promise<void> {
-    validator.Params(params, {
-        cid: v => {
+    validator.Params(params, validator.schema.object({
+        cid: validator.schema.custom(v => {
             if (typeof v !== 'string') {
                 throw new SkapiError(`"cid" should be type: <string>.`, { code: 'INVALID_PARAMETER' });
             }
@@ -95,9 +86,9 @@ export async function closeRTC(params: { cid?: string; close_all?: boolean }): P
                 throw new SkapiError(`"cid" should be a valid connection id.`, { code: 'INVALID_PARAMETER' });
             }
             return v;
-        },
-        close: 'boolean'
-    });
+        }).optional(),
+        close: validator.schema.boolean().nullable().optional()
+    }));
     let socket: WebSocket = await this.__socket;
     let { cid, close_all = false } = params || {};
 
@@ -110,23 +101,23 @@ export async function closeRTC(params: { cid?: string; close_all?: boolean }): P
             throw new SkapiError(`"cid" is required.`, { code: 'INVALID_PARAMETER' });
         }
 
-        delete __rtcSdpOfferBuffer[cid];
-        delete __rtcCandidatesBuffer[cid];
+        delete this.__rtcSdpOfferBuffer[cid];
+        delete this.__rtcCandidatesBuffer[cid];
 
         // Close all associated data channels
-        if (__dataChannel[cid]) {
-            Object.values(__dataChannel[cid]).forEach(channel => {
+        if (this.__dataChannel[cid]) {
+            Object.values(this.__dataChannel[cid] as { [label: string]: RTCDataChannel }).forEach(channel => {
                 if (channel.readyState !== 'closed') {
                     channel.close();
                 }
             });
         }
 
-        delete __dataChannel[cid];
+        delete this.__dataChannel[cid];
 
-        if (__peerConnection?.[cid]) {
-            if (__peerConnection[cid].connectionState !== 'closed') {
-                __peerConnection[cid].close();
+        if (this.__peerConnection?.[cid]) {
+            if (this.__peerConnection[cid].connectionState !== 'closed') {
+                this.__peerConnection[cid].close();
 
                 socket.send(JSON.stringify({
                     action: 'rtc',
@@ -138,28 +129,28 @@ export async function closeRTC(params: { cid?: string; close_all?: boolean }): P
 
             let msg = {
                 type: 'connectionstatechange',
-                target: __peerConnection[cid],
+                target: this.__peerConnection[cid],
                 timestamp: new Date().toISOString(),
-                state: __peerConnection[cid].connectionState,
-                iceState: __peerConnection[cid].iceConnectionState,
-                signalingState: __peerConnection[cid].signalingState
+                state: this.__peerConnection[cid].connectionState,
+                iceState: this.__peerConnection[cid].iceConnectionState,
+                signalingState: this.__peerConnection[cid].signalingState
             }
 
-            if (__rtcEvents[cid]) {
-                __rtcEvents[cid](msg);
+            if (this.__rtcEvents[cid]) {
+                this.__rtcEvents[cid](msg);
             }
 
             this.log('closeRTC', msg);
         }
 
-        delete __rtcEvents[cid];
-        delete __receiver_ringing[cid];
-        delete __caller_ringing[cid];
-        delete __peerConnection[cid];
+        delete this.__rtcEvents[cid];
+        delete this.__receiver_ringing[cid];
+        delete this.__caller_ringing[cid];
+        delete this.__peerConnection[cid];
     }
 
     if (close_all) {
-        for (let key in __peerConnection) {
+        for (let key in this.__peerConnection) {
             close(key);
         }
     }
@@ -215,8 +206,8 @@ export async function connectRTC(
         throw new SkapiError('Access token is required.', { code: 'INVALID_PARAMETER' });
     }
 
-    params = validator.Params(params, {
-        cid: v => {
+    params = validator.Params(params, validator.schema.object({
+        cid: validator.schema.custom((v: string) => {
             if (typeof v !== 'string') {
                 throw new SkapiError(`"cid" should be type: <string>.`, { code: 'INVALID_PARAMETER' });
             }
@@ -224,20 +215,23 @@ export async function connectRTC(
                 throw new SkapiError(`"cid" should be a valid connection id.`, { code: 'INVALID_PARAMETER' });
             }
             return v;
-        },
-        ice: ['string', () => 'stun:stun.skapi.com:3468'],
-        media: v => v,
-        channels: ['text-chat', 'file-transfer', 'video-chat', 'voice-chat', 'gaming', {
-            // negotiated: 'boolean',
-            // id: 'number',
-            ordered: 'boolean',
-            maxPacketLifeTime: 'number',
-            maxRetransmits: 'number',
-            protocol: 'string'
-        }, () => {
+        }),
+        ice: validator.schema.string().nullable().default('stun:stun.skapi.com:3468'),
+        media: validator.schema.any().optional(),
+        channels: validator.schema.array(validator.schema.union(
+            validator.schema.literal('text-chat', 'file-transfer', 'video-chat', 'voice-chat', 'gaming'),
+            validator.schema.object({
+                // negotiated: validator.schema.boolean(),
+                // id: validator.schema.number(),
+                ordered: validator.schema.boolean().nullable().optional(),
+                maxPacketLifeTime: validator.schema.number().nullable().optional(),
+                maxRetransmits: validator.schema.number().nullable().optional(),
+                protocol: validator.schema.string().nullable().optional()
+            }, { passthrough: true })
+        )).nullable().default(() => {
             return [{ ordered: true, maxPacketLifeTime: 10, protocol: 'default' }]
-        }]
-    }, ['cid']);
+        })
+    }));
 
     let { cid, ice } = params;
 
@@ -267,22 +261,22 @@ export async function connectRTC(
         ]
     };
 
-    if (!__peerConnection?.[cid]) {
-        __peerConnection[cid] = new RTCPeerConnection(configuration);
+    if (!this.__peerConnection?.[cid]) {
+        this.__peerConnection[cid] = new RTCPeerConnection(configuration);
     }
 
     // add media stream
     if (params?.media) {
         this.__mediaStream = await createMediaStream(params.media);
         this.__mediaStream.getTracks().forEach(track => {
-            __peerConnection[cid].addTrack(track, this.__mediaStream);
+            this.__peerConnection[cid].addTrack(track, this.__mediaStream);
         });
     }
 
-    __rtcEvents[cid] = callback;
+    this.__rtcEvents[cid] = callback;
 
-    if (!__dataChannel[cid]) {
-        __dataChannel[cid] = {};
+    if (!this.__dataChannel[cid]) {
+        this.__dataChannel[cid] = {};
     }
 
     for (let i = 0; i < params.channels.length; i++) {
@@ -312,16 +306,16 @@ export async function connectRTC(
         }
 
         let protocol = options.protocol || 'default';
-        if (Object.keys(__dataChannel[cid]).includes(protocol)) {
+        if (Object.keys(this.__dataChannel[cid]).includes(protocol)) {
             throw new SkapiError(`Data channel with the protocol "${protocol}" already exists.`, { code: 'INVALID_REQUEST' });
         }
 
-        let dataChannel = __peerConnection[cid].createDataChannel(protocol, options);
-        __dataChannel[cid][protocol] = dataChannel;
+        let dataChannel = this.__peerConnection[cid].createDataChannel(protocol, options);
+        this.__dataChannel[cid][protocol] = dataChannel;
     }
 
-    for (let key in __dataChannel[cid]) {
-        let dataChannel = __dataChannel[cid][key];
+    for (let key in this.__dataChannel[cid]) {
+        let dataChannel = this.__dataChannel[cid][key];
         handleDataChannel.bind(this)(cid, dataChannel);
     }
 
@@ -329,9 +323,9 @@ export async function connectRTC(
     await sendOffer.bind(this)(cid);
 
     return {
-        hangup: () => __caller_ringing[cid] && __caller_ringing[cid](false),
+        hangup: () => this.__caller_ringing[cid] && this.__caller_ringing[cid](false),
         connection: new Promise(resolve => {
-            __caller_ringing[cid] = ((proceed: boolean) => {
+            this.__caller_ringing[cid] = ((proceed: boolean) => {
                 this.log('receiver picked up the call', cid);
                 // proceed
                 if (!proceed) {
@@ -339,23 +333,23 @@ export async function connectRTC(
                     return null;
                 }
 
-                __peerConnection[cid].onnegotiationneeded = () => {
+                this.__peerConnection[cid].onnegotiationneeded = () => {
                     this.log('onnegotiationneeded', `sending offer to "${cid}".`);
                     sendOffer.bind(this)(cid);
-                    if (__rtcEvents[cid])
-                        __rtcEvents[cid]({
+                    if (this.__rtcEvents[cid])
+                        this.__rtcEvents[cid]({
                             type: 'negotiationneeded',
-                            target: __peerConnection[cid],
+                            target: this.__peerConnection[cid],
                             timestamp: new Date().toISOString(),
-                            signalingState: __peerConnection[cid].signalingState,
-                            connectionState: __peerConnection[cid].iceConnectionState,
-                            gatheringState: __peerConnection[cid].iceGatheringState
+                            signalingState: this.__peerConnection[cid].signalingState,
+                            connectionState: this.__peerConnection[cid].iceConnectionState,
+                            gatheringState: this.__peerConnection[cid].iceGatheringState
                         });
                 };
 
                 resolve({
-                    target: __peerConnection[cid],
-                    channels: __dataChannel[cid],
+                    target: this.__peerConnection[cid],
+                    channels: this.__dataChannel[cid],
                     hangup: () => closeRTC.bind(this)({ cid: cid }),
                     media: this.__mediaStream
                 });
@@ -372,7 +366,7 @@ export function respondRTC(msg: WebSocketMessage): (params: RTCReceiverParams, c
         let sender = msg.sender_cid;
         let socket: WebSocket = await this.__socket;
 
-        if (!__receiver_ringing[sender]) {
+        if (!this.__receiver_ringing[sender]) {
             return null;
         }
 
@@ -391,8 +385,8 @@ export function respondRTC(msg: WebSocketMessage): (params: RTCReceiverParams, c
 
         let { ice = 'stun:stun.skapi.com:3468' } = params;
 
-        if (!__peerConnection?.[sender]) {
-            __peerConnection[sender] = new RTCPeerConnection({
+        if (!this.__peerConnection?.[sender]) {
+            this.__peerConnection[sender] = new RTCPeerConnection({
                 iceServers: [
                     { urls: ice }
                 ]
@@ -402,22 +396,22 @@ export function respondRTC(msg: WebSocketMessage): (params: RTCReceiverParams, c
         if (params?.media) {
             this.__mediaStream = await createMediaStream(params.media);
             this.__mediaStream.getTracks().forEach(track => {
-                __peerConnection[sender].addTrack(track, this.__mediaStream);
+                this.__peerConnection[sender].addTrack(track, this.__mediaStream);
             });
         }
 
-        delete __receiver_ringing[sender];
+        delete this.__receiver_ringing[sender];
 
-        __rtcEvents[sender] = callback;
+        this.__rtcEvents[sender] = callback;
 
-        if (!__dataChannel[sender]) {
-            __dataChannel[sender] = {};
+        if (!this.__dataChannel[sender]) {
+            this.__dataChannel[sender] = {};
         }
 
-        __peerConnection[sender].ondatachannel = (event) => {
+        this.__peerConnection[sender].ondatachannel = (event) => {
             this.log('ondatachannel', `received data channel "${event.channel.label}".`);
             const dataChannel = event.channel;
-            __dataChannel[sender][dataChannel.label] = dataChannel;
+            this.__dataChannel[sender][dataChannel.label] = dataChannel;
             handleDataChannel.bind(this)(sender, dataChannel);
         }
 
@@ -433,8 +427,8 @@ export function respondRTC(msg: WebSocketMessage): (params: RTCReceiverParams, c
         }));
 
         return {
-            target: __peerConnection[sender],
-            channels: __dataChannel[sender],
+            target: this.__peerConnection[sender],
+            channels: this.__dataChannel[sender],
             hangup: () => closeRTC.bind(this)({ cid: sender }),
             media: this.__mediaStream
         }
@@ -448,10 +442,10 @@ async function sendOffer(recipient) {
     this.log('sendOffer', recipient);
     let socket: WebSocket = await this.__socket;
 
-    const offer = await __peerConnection[recipient].createOffer();
-    await __peerConnection[recipient].setLocalDescription(offer);
+    const offer = await this.__peerConnection[recipient].createOffer();
+    await this.__peerConnection[recipient].setLocalDescription(offer);
 
-    let sdpoffer = __peerConnection[recipient].localDescription;
+    let sdpoffer = this.__peerConnection[recipient].localDescription;
     this.log('rtcSdpOffer to', sdpoffer);
 
     socket.send(JSON.stringify({
@@ -475,23 +469,23 @@ async function sendIceCandidate(event, recipient) {
         return;
     }
 
-    let callback = __rtcEvents[recipient] || (() => { });
+    let callback = this.__rtcEvents[recipient] || (() => { });
 
     // Collect ICE candidates and send them to the remote peer
     let candidate = event.candidate;
-    this.log('ice gathering state set to', __peerConnection[recipient].iceGatheringState);
+    this.log('ice gathering state set to', this.__peerConnection[recipient].iceGatheringState);
 
     callback({
         type: 'icecandidate',
-        target: __peerConnection[recipient],
+        target: this.__peerConnection[recipient],
         timestamp: new Date().toISOString(),
         candidate: event.candidate.candidate,
         sdpMid: event.candidate.sdpMid,
         sdpMLineIndex: event.candidate.sdpMLineIndex,
         usernameFragment: event.candidate.usernameFragment,
         protocol: event.candidate.protocol,
-        gatheringState: __peerConnection[recipient].iceGatheringState,
-        connectionState: __peerConnection[recipient].iceConnectionState
+        gatheringState: this.__peerConnection[recipient].iceGatheringState,
+        connectionState: this.__peerConnection[recipient].iceConnectionState
     });
 
     socket.send(JSON.stringify({
@@ -504,8 +498,8 @@ async function sendIceCandidate(event, recipient) {
 
 function peerConnectionHandler(key: string, skipKey: string[]) {
     let skip = new Set(skipKey);
-    let cb = __rtcEvents[key] || ((v: any) => { });
-    let peer = __peerConnection[key];
+    let cb = this.__rtcEvents[key] || ((v: any) => { });
+    let peer = this.__peerConnection[key];
 
     const handlers = {
         ontrack: (event: any) => {
@@ -618,7 +612,7 @@ function peerConnectionHandler(key: string, skipKey: string[]) {
 
 function handleDataChannel(key: string, dataChannel: RTCDataChannel, skipKey?: string[]) {
     let skip = new Set(skipKey);
-    let cb = __rtcEvents[key] || ((v: any) => { });
+    let cb = this.__rtcEvents[key] || ((v: any) => { });
 
     const events = {
         onmessage: (event) => {
@@ -660,9 +654,9 @@ function handleDataChannel(key: string, dataChannel: RTCDataChannel, skipKey?: s
             this.log(`${dataChannel.label}: closed`, null);
             cb(closed);
 
-            if (__dataChannel[key]) {
-                delete __dataChannel[key][dataChannel.label];
-                if (Object.keys(__dataChannel[key]).length === 0) {
+            if (this.__dataChannel[key]) {
+                delete this.__dataChannel[key][dataChannel.label];
+                if (Object.keys(this.__dataChannel[key]).length === 0) {
                     closeRTC.bind(this)({ cid: key });
                 }
             }
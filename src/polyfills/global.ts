@@ -1 +1,3 @@
-(window as any).global = window;
\ No newline at end of file
+if (typeof window !== 'undefined') {
+    (window as any).global = window;
+}
@@ -0,0 +1,337 @@
+import SkapiError from '../main/error';
+import { CachePolicy, CacheQuery, CacheInfo } from '../Types';
+import validator from './validator';
+
+// Query cache.
+// Responses of read only requests are kept for the ttl of the request name,
+// and can be served stale while being refetched in the background.
+// Writes invalidate cached queries of the same table, reference, index or record.
+
+// read only requests that can be cached
+const CACHEABLE_REQUESTS = [
+    'get-users',
+    'get-records',
+    'get-table',
+    'get-tag',
+    'get-index',
+    'get-uniqueid',
+    'get-feed',
+    'get-newsletters',
+    'get-public-newsletters',
+    'get-newsletter-subscription',
+    'get-subscription'
+];
+
+// requests that returns records. invalidated on record writes
+const RECORD_QUERIES = ['get-records', 'get-table', 'get-tag', 'get-index', 'get-uniqueid', 'get-feed'];
+
+// requests that writes records
+const RECORD_WRITES = ['post-record', 'del-records'];
+
+const defaultCachePolicy: Required<CachePolicy> = {
+    ttl: 0,
+    staleWhileRevalidate: 0,
+    maxEntries: 100,
+    maxSize: 2 * 1024 * 1024
+};
+
+export function normalizeCachePolicy(policy: CachePolicy | false): Required<CachePolicy> {
+    if (policy === false || policy === undefined || policy === null) {
+        // responses are not cached, but fetchMore pages are still kept in budget
+        return Object.assign({}, defaultCachePolicy);
+    }
+
+    let positiveNumber = (name: string) => (v: number) => {
+        if (typeof v !== 'number' || v < 0) {
+            throw new SkapiError(`"${name}" should be a number >= 0.`, { code: 'INVALID_PARAMETER' });
+        }
+        return v;
+    };
+
+    policy = validator.Params(policy, validator.schema.object({
+        ttl: validator.schema.custom(v => {
+            if (typeof v === 'number' && v >= 0) {
+                return v;
+            }
+            if (v && typeof v === 'object' && Object.values(v).every(t => typeof t === 'number' && t >= 0)) {
+                return v;
+            }
+            throw new SkapiError('"ttl" should be type: <number | { [request: string]: number }> of milliseconds >= 0.', { code: 'INVALID_PARAMETER' });
+        }).optional(),
+        staleWhileRevalidate: validator.schema.custom(positiveNumber('staleWhileRevalidate')).optional(),
+        maxEntries: validator.schema.custom(positiveNumber('maxEntries')).optional(),
+        maxSize: validator.schema.custom(positiveNumber('maxSize')).optional()
+    }));
+
+    return Object.assign({}, defaultCachePolicy, policy);
+}
+
+/** Returns ttl of the request name. 0 when the request is not cached. */
+export function cacheTtl(url: string): number {
+    let policy: Required<CachePolicy> = this.__cachePolicy;
+    if (!policy.ttl || !CACHEABLE_REQUESTS.includes(url)) {
+        return 0;
+    }
+
+    if (typeof policy.ttl === 'number') {
+        return policy.ttl;
+    }
+
+    return policy.ttl[url] || 0;
+}
+
+// approximate size of the cached responses of the query, in characters of JSON
+function querySize(url: string, hashedParams: string): number {
+    let size = 0;
+
+    for (let k in this.__cached_requests[url] || {}) {
+        if (k.startsWith(hashedParams)) {
+            size += JSON.stringify(this.__cached_requests[url][k]).length;
+        }
+    }
+
+    for (let k in this.__queryCache[url] || {}) {
+        if (this.__queryCache[url][k].hashedParams === hashedParams) {
+            size += JSON.stringify(this.__queryCache[url][k].result).length;
+        }
+    }
+
+    return size;
+}
+
+/**
+ * Keeps request parameters of cached responses, so they can be matched on invalidation.
+ * Evicts least recently used queries when the cache is over budget.
+ */
+export function trackCacheEntry(url: string, hashedParams: string, params: Record<string, any>) {
+    if (!this.__cacheMeta[url]) {
+        this.__cacheMeta[url] = {};
+    }
+
+    this.__cacheMeta[url][hashedParams] = {
+        params,
+        accessed: Date.now(),
+        size: querySize.bind(this)(url, hashedParams)
+    };
+
+    enforceCacheBudget.bind(this)();
+}
+
+/** Marks the query as recently used. */
+export function touchCacheEntry(url: string, hashedParams: string) {
+    let meta = this.__cacheMeta[url]?.[hashedParams];
+    if (meta) {
+        meta.accessed = Date.now();
+    }
+}
+
+export function readQueryCache(url: string, cacheKey: string, ttl: number): { result: any; stale: boolean; } | null {
+    let entry = this.__queryCache[url]?.[cacheKey];
+    if (!entry) {
+        return null;
+    }
+
+    let age = Date.now() - entry.stored;
+    if (age < ttl + this.__cachePolicy.staleWhileRevalidate) {
+        touchCacheEntry.bind(this)(url, entry.hashedParams);
+        return { result: entry.result, stale: age >= ttl };
+    }
+
+    delete this.__queryCache[url][cacheKey];
+    return null;
+}
+
+export function writeQueryCache(url: string, cacheKey: string, hashedParams: string, params: Record<string, any>, result: any) {
+    if (!this.__queryCache[url]) {
+        this.__queryCache[url] = {};
+    }
+    this.__queryCache[url][cacheKey] = { result, stored: Date.now(), hashedParams };
+    trackCacheEntry.bind(this)(url, hashedParams, params);
+}
+
+// removes every cached response of the query
+function evictQuery(url: string, hashedParams: string, startKeyHistory: boolean) {
+    delete this.__cacheMeta[url]?.[hashedParams];
+
+    // pages cached for fetchMore
+    for (let k in this.__cached_requests[url] || {}) {
+        if (k.startsWith(hashedParams)) {
+            delete this.__cached_requests[url][k];
+        }
+    }
+
+    for (let k in this.__queryCache[url] || {}) {
+        if (this.__queryCache[url][k].hashedParams === hashedParams) {
+            delete this.__queryCache[url][k];
+        }
+    }
+
+    if (startKeyHistory) {
+        delete this.__startKeyHistory[url]?.[hashedParams];
+    }
+}
+
+function cachedQueries(): { url: string; hashedParams: string; accessed: number; size: number; }[] {
+    let list = [];
+    for (let url in this.__cacheMeta) {
+        for (let h in this.__cacheMeta[url]) {
+            list.push({ url, hashedParams: h, accessed: this.__cacheMeta[url][h].accessed, size: this.__cacheMeta[url][h].size });
+        }
+    }
+    return list;
+}
+
+/**
+ * Evicts least recently used queries until the cache fits in the budget.
+ * ratio shrinks the budget. ex) 0.5 evicts until the cache is half of the budget.
+ */
+export function enforceCacheBudget(ratio = 1) {
+    let { maxEntries, maxSize } = this.__cachePolicy as Required<CachePolicy>;
+    let list = cachedQueries.bind(this)().sort((a, b) => a.accessed - b.accessed);
+    let size = list.reduce((sum, q) => sum + q.size, 0);
+
+    while (list.length && (list.length > maxEntries * ratio || size > maxSize * ratio)) {
+        let q = list.shift();
+        size -= q.size;
+        // evicted queries start over from the first page on fetchMore
+        evictQuery.bind(this)(q.url, q.hashedParams, true);
+    }
+}
+
+export function getCacheInfo(): CacheInfo {
+    let queries = cachedQueries.bind(this)().map(q => ({
+        url: q.url,
+        params: this.__cacheMeta[q.url][q.hashedParams].params,
+        size: q.size,
+        accessed: q.accessed
+    })).sort((a, b) => b.accessed - a.accessed);
+
+    return {
+        entries: queries.length,
+        size: queries.reduce((sum, q) => sum + q.size, 0),
+        maxEntries: this.__cachePolicy.maxEntries,
+        maxSize: this.__cachePolicy.maxSize,
+        queries
+    };
+}
+
+/** Removes every cached response and start key history. */
+export function clearCache() {
+    this.__cached_requests = {};
+    this.__startKeyHistory = {};
+    this.__cacheMeta = {};
+    this.__queryCache = {};
+}
+
+function isQuotaExceeded(err: any): boolean {
+    return err?.name === 'QuotaExceededError' || err?.name === 'NS_ERROR_DOM_QUOTA_REACHED' || err?.code === 22 || err?.code === 1014;
+}
+
+/**
+ * Writes cache holding data to the storage.
+ * When the storage quota is exceeded, retries after evicting half of the cache, then without any cache.
+ */
+export function persistCache(key: string, serialize: () => string) {
+    let attempt = (step: number) => {
+        let onError = (err: any) => {
+            if (!isQuotaExceeded(err) || step > 1) {
+                this.log('cache persist error:', err);
+                return;
+            }
+
+            if (step === 0) {
+                enforceCacheBudget.bind(this)(0.5);
+            }
+            else {
+                clearCache.bind(this)();
+            }
+
+            attempt(step + 1);
+        };
+
+        try {
+            let saving = this.__storage.set(key, serialize());
+            if (saving instanceof Promise) {
+                saving.catch(onError);
+            }
+        } catch (err) {
+            onError(err);
+        }
+    };
+
+    attempt(0);
+}
+
+// values of the query that identifies what the request reads or writes
+function queryTarget(params: Record<string, any>): CacheQuery {
+    let reference = params?.reference;
+    return {
+        table: typeof params?.table === 'string' ? params.table : params?.table?.name,
+        reference: typeof reference === 'string' ? reference : reference?.record_id || reference?.unique_id,
+        index: params?.index?.name,
+        record_id: params?.record_id || undefined
+    };
+}
+
+/**
+ * Returns true when cached request params matches the query.
+ * When loose, params that does not share any key with the query are also matched.
+ */
+function matchQuery(params: Record<string, any>, query: CacheQuery, loose: boolean): boolean {
+    let target = queryTarget(params);
+    let comparable = false;
+
+    for (let k of ['table', 'reference', 'index', 'record_id']) {
+        if (!query[k] || !target[k]) {
+            continue;
+        }
+
+        comparable = true;
+        let a = Array.isArray(target[k]) ? target[k] : [target[k]];
+        let b = Array.isArray(query[k]) ? query[k] : [query[k]];
+        if (a.some(v => b.includes(v))) {
+            return true;
+        }
+    }
+
+    return loose && !comparable;
+}
+
+/**
+ * Removes cached responses that matches the query. Removes every cached response when query is not given.
+ * Returns number of removed requests.
+ */
+export function invalidateCache(query?: CacheQuery, loose = false): number {
+    let urls = query?.url ? [query.url] : Object.keys(Object.assign({}, this.__cacheMeta, this.__queryCache));
+    let hasTarget = query && ['table', 'reference', 'index', 'record_id'].some(k => query[k]);
+    let count = 0;
+
+    for (let url of urls) {
+        let meta = this.__cacheMeta[url] || {};
+        let invalidated = Object.keys(meta).filter(h => !hasTarget || matchQuery(meta[h].params, query, loose));
+
+        for (let h of invalidated) {
+            evictQuery.bind(this)(url, h, false);
+        }
+
+        if (!hasTarget) {
+            delete this.__queryCache[url];
+        }
+
+        count += invalidated.length;
+    }
+
+    return count;
+}
+
+/** Invalidates cached record queries that could have been changed by the write request. */
+export function invalidateWrite(url: string, params: Record<string, any>) {
+    if (!RECORD_WRITES.includes(url)) {
+        return;
+    }
+
+    let target = queryTarget(params);
+    for (let q of RECORD_QUERIES) {
+        invalidateCache.bind(this)(Object.assign({ url: q }, target), true);
+    }
+}
@@ -0,0 +1,224 @@
+import SkapiError from '../main/error';
+import { MessageCatalog } from '../Types';
+
+// Error message catalog.
+// Messages are keyed by error code and message id, optionally followed by the parameter name.
+// ex) 'INVALID_PARAMETER.required' or 'INVALID_PARAMETER.required.email' for the email parameter only.
+// Errors without message id are looked up by the error code. ex) 'NETWORK_ERROR'
+// English messages are written where the errors are thrown. Templates fill in {name} from the message params.
+
+const catalogs: { [locale: string]: MessageCatalog } = {
+    ko: {
+        'INVALID_PARAMETER.empty': '{param} 값이 비어 있습니다.',
+        'INVALID_PARAMETER.type': '{param}의 타입은 {type}이어야 합니다.',
+        'INVALID_PARAMETER.invalid': '{param} 값이 올바르지 않습니다.',
+        'INVALID_PARAMETER.required': '"{param}" 값은 필수입니다.',
+        'INVALID_PARAMETER.key_required': '"{key}" 키는 필수입니다.',
+        'INVALID_PARAMETER.min_length': '"{param}"은(는) {min}자 이상이어야 합니다.',
+        'INVALID_PARAMETER.max_length': '"{param}"은(는) 최대 {max}자까지 입력할 수 있습니다.',
+        'INVALID_PARAMETER.minimum': '"{param}" 값은 {min} 이상이어야 합니다.',
+        'INVALID_PARAMETER.maximum': '"{param}" 값은 {max} 이하여야 합니다.',
+        'INVALID_PARAMETER.min_items': '"{param}"에는 {min}개 이상의 항목이 있어야 합니다.',
+        'INVALID_PARAMETER.max_items': '"{param}"에는 최대 {max}개의 항목을 넣을 수 있습니다.',
+        'INVALID_PARAMETER.phone_number': '"phone_number" 형식이 올바르지 않습니다. "+00123456789" 형식으로 입력하세요.',
+        'INVALID_PARAMETER.birthdate': '"birthdate" 형식이 올바르지 않습니다. "yyyy-mm-dd" 형식으로 입력하세요.',
+        'INVALID_PARAMETER.email': '"{value}"은(는) 올바른 이메일이 아닙니다.',
+        'INVALID_PARAMETER.url': '"{value}"은(는) 올바른 URL이 아닙니다.',
+        'INVALID_PARAMETER.relative_url': '"{value}"은(는) 올바른 URL이 아닙니다. 로컬 파일 시스템에서는 상대 URL을 사용할 수 없습니다. 전체 URL을 사용하세요.',
+        'INVALID_PARAMETER.whitespace': '{param}에는 공백을 사용할 수 없습니다.',
+        'INVALID_PARAMETER.periods': '{param}에는 마침표를 사용할 수 없습니다.',
+        'INVALID_PARAMETER.special_chars': '{param}에는 특수문자를 사용할 수 없습니다. 허용되는 특수문자: [ ] ^ _ ` : ; < = > ? @',
+        'INVALID_PARAMETER.number_range': '숫자는 -{range} ~ +{range} 범위여야 합니다.',
+        'INVALID_PARAMETER.index_range': '{index}에는 "index.range"를 사용할 수 없습니다.',
+        'INVALID_PARAMETER.range_type': '"index.range"의 타입은 "index.value"의 타입과 같아야 합니다.',
+        'INVALID_REQUEST.access_group_range': '"table.access_group" 값은 0 ~ 99 범위여야 합니다.',
+        'INVALID_REQUEST.access_group_login': '로그인하지 않은 사용자는 접근 그룹이 있는 레코드에 접근할 수 없습니다.',
+        'INCORRECT_USERNAME_OR_PASSWORD': '아이디 또는 비밀번호가 올바르지 않습니다.',
+        'USER_IS_DISABLED': '비활성화된 계정입니다.',
+        'ACCOUNT_EXISTS': '이미 존재하는 계정입니다.',
+        'SIGNUP_CONFIRMATION_NEEDED': '회원가입 인증이 필요합니다.',
+        'REQUEST_EXCEED': '시도 횟수가 너무 많습니다. 잠시 후 다시 시도하세요.',
+        'TOO_MANY_REQUESTS': '요청이 너무 많습니다. 잠시 후 다시 시도하세요.',
+        'NETWORK_ERROR': '네트워크 오류가 발생했습니다.',
+        'TIMEOUT': '요청 시간이 초과되었습니다.',
+        'ABORTED': '요청이 취소되었습니다.',
+        'CONFLICT': '다른 사용자가 먼저 레코드를 수정했습니다.'
+    },
+    ja: {
+        'INVALID_PARAMETER.empty': '{param}が空です。',
+        'INVALID_PARAMETER.type': '{param}の型は{type}である必要があります。',
+        'INVALID_PARAMETER.invalid': '{param}が無効です。',
+        'INVALID_PARAMETER.required': '"{param}"は必須です。',
+        'INVALID_PARAMETER.key_required': 'キー"{key}"は必須です。',
+        'INVALID_PARAMETER.min_length': '"{param}"は{min}文字以上で入力してください。',
+        'INVALID_PARAMETER.max_length': '"{param}"は{max}文字以内で入力してください。',
+        'INVALID_PARAMETER.minimum': '"{param}"は{min}以上で指定してください。',
+        'INVALID_PARAMETER.maximum': '"{param}"は{max}以下で指定してください。',
+        'INVALID_PARAMETER.min_items': '"{param}"には{min}個以上の項目が必要です。',
+        'INVALID_PARAMETER.max_items': '"{param}"の項目は{max}個までです。',
+        'INVALID_PARAMETER.phone_number': '"phone_number"が無効です。"+00123456789"の形式で入力してください。',
+        'INVALID_PARAMETER.birthdate': '"birthdate"が無効です。"yyyy-mm-dd"の形式で入力してください。',
+        'INVALID_PARAMETER.email': '"{value}"は無効なメールアドレスです。',
+        'INVALID_PARAMETER.url': '"{value}"は無効なURLです。',
+        'INVALID_PARAMETER.relative_url': '"{value}"は無効なURLです。ローカルファイルシステムでは相対URLを使用できません。完全なURLを使用してください。',
+        'INVALID_PARAMETER.whitespace': '{param}に空白は使用できません。',
+        'INVALID_PARAMETER.periods': '{param}にピリオドは使用できません。',
+        'INVALID_PARAMETER.special_chars': '{param}に特殊文字は使用できません。使用できる特殊文字: [ ] ^ _ ` : ; < = > ? @',
+        'INVALID_PARAMETER.number_range': '数値は-{range} ~ +{range}の範囲で指定してください。',
+        'INVALID_PARAMETER.index_range': '{index}には"index.range"を使用できません。',
+        'INVALID_PARAMETER.range_type': '"index.range"の型は"index.value"の型と一致する必要があります。',
+        'INVALID_REQUEST.access_group_range': '"table.access_group"は0 ~ 99の範囲で指定してください。',
+        'INVALID_REQUEST.access_group_login': 'ログインしていないユーザーはアクセスグループ付きのレコードにアクセスできません。',
+        'INCORRECT_USERNAME_OR_PASSWORD': 'ユーザー名またはパスワードが正しくありません。',
+        'USER_IS_DISABLED': 'このアカウントは無効化されています。',
+        'ACCOUNT_EXISTS': 'このアカウントは既に存在します。',
+        'SIGNUP_CONFIRMATION_NEEDED': '会員登録の確認が必要です。',
+        'REQUEST_EXCEED': '試行回数が多すぎます。しばらくしてから再度お試しください。',
+        'TOO_MANY_REQUESTS': 'リクエストが多すぎます。しばらくしてから再度お試しください。',
+        'NETWORK_ERROR': 'ネットワークエラーが発生しました。',
+        'TIMEOUT': 'リクエストがタイムアウトしました。',
+        'ABORTED': 'リクエストがキャンセルされました。',
+        'CONFLICT': 'レコードは他のユーザーによって既に更新されています。'
+    },
+    es: {
+        'INVALID_PARAMETER.empty': '{param} está vacío.',
+        'INVALID_PARAMETER.type': '{param} debe ser de tipo: {type}.',
+        'INVALID_PARAMETER.invalid': '{param} no es válido.',
+        'INVALID_PARAMETER.required': '"{param}" es obligatorio.',
+        'INVALID_PARAMETER.key_required': 'La clave "{key}" es obligatoria.',
+        'INVALID_PARAMETER.min_length': '"{param}" debe tener al menos {min} caracteres.',
+        'INVALID_PARAMETER.max_length': '"{param}" puede tener como máximo {max} caracteres.',
+        'INVALID_PARAMETER.minimum': '"{param}" debe ser mayor o igual que {min}.',
+        'INVALID_PARAMETER.maximum': '"{param}" debe ser menor o igual que {max}.',
+        'INVALID_PARAMETER.min_items': '"{param}" debe tener al menos {min} elementos.',
+        'INVALID_PARAMETER.max_items': '"{param}" puede tener como máximo {max} elementos.',
+        'INVALID_PARAMETER.phone_number': '"phone_number" no es válido. El formato debe ser "+00123456789".',
+        'INVALID_PARAMETER.birthdate': '"birthdate" no es válido. El formato debe ser "yyyy-mm-dd".',
+        'INVALID_PARAMETER.email': '"{value}" no es un correo electrónico válido.',
+        'INVALID_PARAMETER.url': '"{value}" no es una URL válida.',
+        'INVALID_PARAMETER.relative_url': '"{value}" no es una URL válida. Las URL relativas no funcionan en el sistema de archivos local. Use la URL completa.',
+        'INVALID_PARAMETER.whitespace': '{param} no debe contener espacios.',
+        'INVALID_PARAMETER.periods': '{param} no debe contener puntos.',
+        'INVALID_PARAMETER.special_chars': '{param} no debe contener caracteres especiales. Caracteres especiales permitidos: [ ] ^ _ ` : ; < = > ? @',
+        'INVALID_PARAMETER.number_range': 'El número debe estar entre -{range} y +{range}.',
+        'INVALID_PARAMETER.index_range': 'No se puede usar "index.range" en {index}.',
+        'INVALID_PARAMETER.range_type': 'El tipo de "index.range" debe coincidir con el tipo de "index.value".',
+        'INVALID_REQUEST.access_group_range': '"table.access_group" debe estar entre 0 y 99.',
+        'INVALID_REQUEST.access_group_login': 'Los usuarios sin sesión no tienen acceso a registros con grupo de acceso.',
+        'INCORRECT_USERNAME_OR_PASSWORD': 'Nombre de usuario o contraseña incorrectos.',
+        'USER_IS_DISABLED': 'Esta cuenta está deshabilitada.',
+        'ACCOUNT_EXISTS': 'La cuenta ya existe.',
+        'SIGNUP_CONFIRMATION_NEEDED': 'Se requiere la confirmación del registro.',
+        'REQUEST_EXCEED': 'Demasiados intentos. Inténtelo de nuevo más tarde.',
+        'TOO_MANY_REQUESTS': 'Demasiadas solicitudes. Inténtelo de nuevo más tarde.',
+        'NETWORK_ERROR': 'Error de red.',
+        'TIMEOUT': 'La solicitud ha excedido el tiempo de espera.',
+        'ABORTED': 'La solicitud ha sido cancelada.',
+        'CONFLICT': 'El registro ha sido modificado por otro usuario.'
+    }
+};
+
+// connection.locale is a country code. ex) 'KR'
+const countryLanguage = {
+    kr: 'ko',
+    jp: 'ja',
+    mx: 'es',
+    ar: 'es',
+    co: 'es',
+    cl: 'es',
+    pe: 'es',
+    ve: 'es'
+};
+
+function resolveLocale(locale: string, registered: { [locale: string]: MessageCatalog }): string | null {
+    if (!locale || typeof locale !== 'string') {
+        return null;
+    }
+
+    let has = (l: string) => !!(registered[l] || catalogs[l]);
+    let l = locale.replace('_', '-').toLowerCase();
+    if (has(l)) {
+        return l;
+    }
+
+    let lang = l.split('-')[0];
+    if (has(lang)) {
+        return lang;
+    }
+
+    if (countryLanguage[lang] && has(countryLanguage[lang])) {
+        return countryLanguage[lang];
+    }
+
+    return null;
+}
+
+function fillTemplate(template: string, params: Record<string, any> = {}): string {
+    return template.replace(/\{(\w+)\}/g, (m, k) => params.hasOwnProperty(k) ? String(params[k]) : m);
+}
+
+/**
+ * Translates the error message to the locale of the instance.
+ * Error is returned as is when there is no translation.
+ */
+export function localizeError(err: SkapiError): SkapiError {
+    if (!(err instanceof SkapiError)) {
+        return err;
+    }
+
+    let registered: { [locale: string]: MessageCatalog } = this.__messages;
+    let locale = resolveLocale(this.__locale || this.connection?.locale, registered);
+    if (!locale) {
+        return err;
+    }
+
+    let translate = (code: string | number, messageId: string, messageParams: Record<string, any>): string | null => {
+        let keys = [];
+        if (messageId) {
+            let param = typeof messageParams?.param === 'string' ? messageParams.param.replace(/"/g, '') : '';
+            if (param) {
+                keys.push(`${code}.${messageId}.${param}`);
+            }
+            keys.push(`${code}.${messageId}`);
+        }
+        else {
+            keys.push(String(code));
+        }
+
+        for (let k of keys) {
+            let template = registered[locale]?.[k] ?? catalogs[locale]?.[k];
+            if (typeof template === 'string') {
+                return fillTemplate(template, messageParams);
+            }
+        }
+
+        return null;
+    };
+
+    err.message = translate(err.code, err.messageId, err.messageParams) ?? err.message;
+
+    if (Array.isArray(err.details)) {
+        // issues of the validation. code of the issue is the message id
+        for (let d of err.details) {
+            if (d.messageParams) {
+                d.message = translate('INVALID_PARAMETER', d.code, d.messageParams) ?? d.message;
+            }
+        }
+    }
+
+    return err;
+}
+
+/** Adds or overrides messages of the locale. */
+export function registerMessages(locale: string, messages: MessageCatalog) {
+    if (!locale || typeof locale !== 'string') {
+        throw new SkapiError('"locale" should be type: string.', { code: 'INVALID_PARAMETER' });
+    }
+
+    if (!messages || typeof messages !== 'object' || Object.values(messages).some(m => typeof m !== 'string')) {
+        throw new SkapiError('"messages" should be type: <{ [key: string]: string }>.', { code: 'INVALID_PARAMETER' });
+    }
+
+    locale = locale.replace('_', '-').toLowerCase();
+    this.__messages[locale] = Object.assign(this.__messages[locale] || {}, messages);
+}
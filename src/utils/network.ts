@@ -1,18 +1,72 @@
 
-import SkapiError from '../main/error';
-import { Form, FetchOptions, DatabaseResponse, ProgressCallback } from '../Types';
+import SkapiError, { SkapiNetworkError, toSkapiError } from '../main/error';
+import { Form, FetchOptions, DatabaseResponse, ProgressCallback, RequestContext, Middleware, RetryPolicy, StartKey } from '../Types';
 import validator from './validator';
 import { MD5, generateRandom, extractFormData } from './utils';
 // import { authentication, getJwtToken } from '../methods/user';
 import { getJwtToken } from '../methods/user';
 import Queuecumber from "queuecumber";
+import { isBrowser, isInstanceOf, blobToDataURL } from './runtime';
+import { shouldQueueOffline, isOfflineError, queueOfflineJob, toStorable } from '../methods/offline';
+import { decodeCursor, withCursors } from '../methods/pagination';
+import { localizeError } from './messages';
+import { cacheTtl, readQueryCache, writeQueryCache, trackCacheEntry, touchCacheEntry, invalidateWrite } from './cache';
+
+// gateway is taken out of rotation after consecutive failures, for the cooldown period
+const GATEWAY_FAILURE_THRESHOLD = 3;
+const GATEWAY_COOLDOWN = 30000;
+
+function isGatewayHealthy(gateway: string): boolean {
+    let health = this.__gatewayHealth[gateway];
+    return !health || health.unhealthyUntil <= Date.now();
+}
+
+function selectGateway(gateways: string[], counter: number): string {
+    let selected = gateways[counter % gateways.length];
+    let twin = gateways[(counter + 1) % gateways.length];
+
+    if (typeof gateways[0] !== 'string' || typeof gateways[1] !== 'string') {
+        return selected;
+    }
+
+    // remember twins for failover
+    this.__gatewayTwins[gateways[0]] = gateways[1];
+    this.__gatewayTwins[gateways[1]] = gateways[0];
+
+    if (!isGatewayHealthy.bind(this)(selected) && isGatewayHealthy.bind(this)(twin)) {
+        return twin;
+    }
+
+    return selected;
+}
 
-let queue = null;
-// Global counters for round-robin
-let privateCounter_admin = 0;
-let publicCounter_admin = 0;
-let privateCounter_record = 0;
-let publicCounter_record = 0;
+function reportGatewayHealth(gateway: string, success: boolean) {
+    let health = this.__gatewayHealth[gateway] || { failures: 0, unhealthyUntil: 0 };
+    let wasHealthy = health.failures < GATEWAY_FAILURE_THRESHOLD;
+
+    if (success) {
+        health.failures = 0;
+        health.unhealthyUntil = 0;
+    }
+    else {
+        health.failures++;
+        if (health.failures >= GATEWAY_FAILURE_THRESHOLD) {
+            health.unhealthyUntil = Date.now() + GATEWAY_COOLDOWN;
+        }
+    }
+
+    this.__gatewayHealth[gateway] = health;
+
+    let isHealthy = health.failures < GATEWAY_FAILURE_THRESHOLD;
+    if (wasHealthy !== isHealthy) {
+        this._emit('gatewayHealth', {
+            gateway,
+            healthy: isHealthy,
+            failures: health.failures,
+            unhealthyUntil: health.unhealthyUntil || null
+        });
+    }
+}
 
 async function getEndpoint(dest: string, auth: boolean) {
     const endpoints = await Promise.all([
@@ -69,13 +123,13 @@ async function getEndpoint(dest: string, auth: boolean) {
                 ? [admin.admin_private, admin.admin_private_2]
                 : [admin.admin_public, admin.admin_public_2];
 
-            const counter_admin = auth ? privateCounter_admin : publicCounter_admin;
-            const selectedGateway_admin = gateways_admin[counter_admin % gateways_admin.length];
+            const counter_admin = auth ? this.__privateCounter_admin : this.__publicCounter_admin;
+            const selectedGateway_admin = selectGateway.bind(this)(gateways_admin, counter_admin);
 
             if (auth) {
-                privateCounter_admin++;
+                this.__privateCounter_admin++;
             } else {
-                publicCounter_admin++;
+                this.__publicCounter_admin++;
             }
 
             return selectedGateway_admin + dest + query
@@ -118,13 +172,13 @@ async function getEndpoint(dest: string, auth: boolean) {
                 ? [record.record_private, record.record_private_2]
                 : [record.record_public, record.record_public_2];
 
-            const counter_record = auth ? privateCounter_record : publicCounter_record;
-            const selectedGateway_record = gateways_record[counter_record % gateways_record.length];
+            const counter_record = auth ? this.__privateCounter_record : this.__publicCounter_record;
+            const selectedGateway_record = selectGateway.bind(this)(gateways_record, counter_record);
 
             if (auth) {
-                privateCounter_record++;
+                this.__privateCounter_record++;
             } else {
-                publicCounter_record++;
+                this.__publicCounter_record++;
             }
 
             return selectedGateway_record + dest + query
@@ -134,11 +188,9 @@ async function getEndpoint(dest: string, auth: boolean) {
     }
 }
 
-const __pendingRequest: Record<string, Promise<any>> = {};
-
 export function terminatePendingRequests() {
-    if(queue) {
-        queue.terminate();
+    if(this.__queue) {
+        this.__queue.terminate();
     }
 }
 
@@ -187,7 +239,13 @@ export async function request(
     }
 
     let fetchOptions = {}; // record fetch options
-    let { fetchMore = false, progress } = options?.fetchOptions || {};
+    let { fetchMore = false, progress, signal } = options?.fetchOptions || {};
+    let retry = options?.fetchOptions?.hasOwnProperty('retry') ? normalizeRetryPolicy(options.fetchOptions.retry, this.__retryPolicy) : this.__retryPolicy;
+    let timeout = typeof options?.fetchOptions?.timeout === 'number' ? validateTimeout(options.fetchOptions.timeout) : this.__timeout;
+
+    if (signal?.aborted) {
+        throw abortError();
+    }
 
     if (options?.fetchOptions && Object.keys(options.fetchOptions).length) {
         for (let k of ['limit', 'startKey', 'ascending']) {
@@ -198,22 +256,32 @@ export async function request(
 
         fetchOptions = validator.Params(
             fetchOptions,
-            {
-                limit: v => {
+            validator.schema.object({
+                limit: validator.schema.custom(v => {
                     if (typeof v !== 'number') {
                         throw new SkapiError('Fetch limit should be a number.', { code: 'INVALID_REQUEST' });
                     }
                     if (v > 1000) {
                         throw new SkapiError('Fetch limit should be below 1000.', { code: 'INVALID_REQUEST' });
                     }
-                    return v;
-                },
-                startKey: v => v,
-                ascending: 'boolean'
-            }
+                    return v as number;
+                }).optional(),
+                startKey: validator.schema.any().optional(),
+                ascending: validator.schema.boolean().nullable().optional()
+            })
         );
     }
 
+    // page of the cursor is fetched by its start key
+    let cursor = options?.fetchOptions?.cursor ? decodeCursor(options.fetchOptions.cursor) : null;
+    if (cursor) {
+        fetchMore = false;
+        delete fetchOptions['startKey'];
+        if (cursor.k) {
+            fetchOptions['startKey'] = cursor.k;
+        }
+    }
+
     let required = _etc?.ignoreService ? {} : { service, owner };
     Object.assign(required, fetchOptions);
 
@@ -263,15 +331,30 @@ export async function request(
 
     this.log('requestKey', requestKey);
 
+    // start key of the page. set from the start key history on fetchMore
+    let pageStart = data?.startKey;
+    let history = cursor ? cursor.h : pageHistory.bind(this)(url, hashedParams, pageStart);
+    let paginate = (result: any) => withCursors(result, pageStart, history);
+
     if (!requestKey || requestKey && typeof requestKey === 'object') {
         // cahced data can be falsy data or object
-        return requestKey;
+        return paginate(requestKey);
+    }
+
+    // query cache. pages of the same query are cached by start key, per user
+    let ttl = cacheTtl.bind(this)(url);
+    let cacheKey = ttl ? MD5.hash((this.__user?.user_id || '') + requestKey + JSON.stringify(data?.startKey || null)) : '';
+    let cached = ttl && options?.fetchOptions?.cache !== false ? readQueryCache.bind(this)(url, cacheKey, ttl) : null;
+
+    if (cached && !cached.stale) {
+        return paginate(cached.result);
     }
 
     // prevent duplicate request
-    if (typeof requestKey === 'string' && __pendingRequest[requestKey] instanceof Promise) {
+    // requests with signal are not shared, so aborting one does not affect the others
+    if (!cached && !signal && typeof requestKey === 'string' && this.__pendingRequest[requestKey] instanceof Promise) {
         this.log('request:returning pending', requestKey);
-        return __pendingRequest[requestKey as string];
+        return this.__pendingRequest[requestKey as string].then(paginate);
     }
 
     // new request
@@ -337,44 +420,110 @@ export async function request(
 
     opt.method = method;
 
-    if (queue === null) {
+    if (this.__queue === null) {
         let config = {
             batchSize: this.requestBatchSize,
             breakWhenError: false,
             onProgress: (progress) => {
-                for(let key in __pendingRequest) {
-                    delete __pendingRequest[key];
+                for(let key in this.__pendingRequest) {
+                    delete this.__pendingRequest[key];
                 }
                 this.onBatchProcess.forEach((cb) => cb(progress));
+                this._emit('batchProcess', progress);
             }
         };
 
-        queue = new Queuecumber(config);
+        this.__queue = new Queuecumber(config);
     }
 
-    return new Promise((res, rej) => {
-        queue.add([async () => {
-            let promise = _fetch.bind(this)(endpoint, opt, progress);
-            __pendingRequest[requestKey as string] = promise;
+    // revalidate: refetches stale cache in the background. start key history is left as is
+    // rejects right away on abort even when the job is still waiting in the queue
+    let send = (revalidate = false) => abortable(signal, (res, rej) => {
+        this.__queue.add([async () => {
+            if (signal?.aborted) {
+                // aborted while queued
+                return null;
+            }
+
+            let ctx: RequestContext = {
+                url,
+                endpoint,
+                method,
+                headers: opt.headers,
+                body: opt.body,
+                responseType: opt.responseType as RequestContext['responseType'],
+                auth: !!auth,
+                progress,
+                signal,
+                timeout,
+                retry
+            };
+
+            let promise = runMiddlewares.bind(this)(ctx);
+            if (!signal) {
+                this.__pendingRequest[requestKey as string] = promise;
+            }
 
             try {
-                let result = update_startKey_keys.bind(this)({
-                    hashedParam: requestKey,
-                    url,
-                    fetched: await promise
-                });
+                let fetched = await promise;
+                let result = fetched;
+
+                if (!revalidate) {
+                    result = update_startKey_keys.bind(this)({
+                        hashedParam: requestKey,
+                        url,
+                        fetched
+                    });
+                }
+                else if (cached.result?.startKeyHistory && fetched && typeof fetched === 'object') {
+                    result = Object.assign({ startKeyHistory: cached.result.startKeyHistory }, fetched);
+                }
+
+                if (ttl) {
+                    writeQueryCache.bind(this)(url, cacheKey, requestKey as string, data, result);
+                }
+                else if (fetched?.startKey) {
+                    trackCacheEntry.bind(this)(url, requestKey as string, data);
+                }
+
+                invalidateWrite.bind(this)(url, data);
 
-                this.log('request:end', result);
                 res(result);
                 return result;
             }
             catch (err) {
-                this.log('request:err', err);
+                // middlewares could throw anything
+                err = toSkapiError(err, { endpoint: endpoint.split('?')[0] });
                 rej(err);
                 throw err;
             }
         }]);
     });
+
+    if (cached) {
+        // stale while revalidate
+        if (!(this.__pendingRequest[requestKey as string] instanceof Promise)) {
+            send(true).catch(err => this.log('cache revalidate error:', err));
+        }
+        return paginate(cached.result);
+    }
+
+    return send().then(paginate);
+}
+
+// start keys of the pages before the page. null when the page was fetched with a start key not in the history
+function pageHistory(url: string, hashedParams: string, pageStart: StartKey | undefined): StartKey[] | null {
+    if (!pageStart) {
+        return [];
+    }
+
+    let list: string[] = this.__startKeyHistory?.[url]?.[hashedParams];
+    let i = Array.isArray(list) ? list.indexOf(JSON.stringify(pageStart)) : -1;
+    if (i < 0) {
+        return null;
+    }
+
+    return list.slice(0, i).map(k => JSON.parse(k));
 }
 
 function load_startKey_keys(option: {
@@ -455,13 +604,273 @@ function load_startKey_keys(option: {
 
     if (this.__cached_requests?.[url]?.[cache_hashedParams]) {
         // return data if there is cache
+        touchCacheEntry.bind(this)(url, hashedParams);
         return this.__cached_requests[url][cache_hashedParams];
     }
 
     return hashedParams;
 }
 
+function abortError() {
+    return new SkapiError('Request has been aborted.', { code: 'ABORTED' });
+}
+
+// promise that rejects when the signal aborts. the listener is removed once settled, as the signal can outlive the request
+function abortable<T>(signal: AbortSignal | undefined, executor: (res: (v: T) => void, rej: (e: any) => void) => void): Promise<T> {
+    if (!signal) {
+        return new Promise(executor);
+    }
+
+    let onAbort: () => void;
+    return new Promise<T>((res, rej) => {
+        onAbort = () => rej(abortError());
+        signal.addEventListener('abort', onAbort, { once: true });
+        executor(res, rej);
+    }).finally(() => signal.removeEventListener('abort', onAbort));
+}
+
+function networkError(requestSent?: boolean) {
+    let err = new SkapiNetworkError('Network error.', { code: 'NETWORK_ERROR' });
+    err.requestSent = requestSent;
+    return err;
+}
+
+// returns true once the request body has been sent. the server may process the request even when the response is lost after that
+function trackSent(xhr: XMLHttpRequest): () => boolean {
+    let sent = false;
+    xhr.upload?.addEventListener('load', () => sent = true);
+    xhr.addEventListener('readystatechange', () => {
+        // readyState is also 4 on failure. status is 0 when no response has arrived
+        if (xhr.readyState >= 2 && xhr.status !== 0) {
+            sent = true;
+        }
+    });
+    return () => sent;
+}
+
+function timeoutError() {
+    return new SkapiNetworkError('Request has timed out.', { code: 'TIMEOUT' });
+}
+
+/**
+ * Returns signal for fetch api that aborts on either timeout or the given signal.
+ */
+function timeoutSignal(signal?: AbortSignal, timeout?: number) {
+    if (!timeout) {
+        return { signal, timedOut: () => false, clear: () => { } };
+    }
+
+    let controller = new AbortController();
+    let timedOut = false;
+
+    let onAbort = () => controller.abort();
+    if (signal) {
+        if (signal.aborted) {
+            controller.abort();
+        }
+        signal.addEventListener('abort', onAbort, { once: true });
+    }
+
+    let timer = setTimeout(() => {
+        timedOut = true;
+        controller.abort();
+    }, timeout);
+
+    let clear = () => {
+        clearTimeout(timer);
+        signal?.removeEventListener('abort', onAbort);
+    };
+
+    return { signal: controller.signal, timedOut: () => timedOut, clear };
+}
+
+function validateTimeout(v: any) {
+    if (typeof v !== 'number' || v < 0) {
+        throw new SkapiError('"timeout" should be a number of milliseconds >= 0.', { code: 'INVALID_PARAMETER' });
+    }
+    return v;
+}
+
+const defaultRetryPolicy: Required<RetryPolicy> = {
+    maxAttempts: 3,
+    baseDelay: 300,
+    maxDelay: 5000,
+    factor: 2,
+    jitter: true,
+    retryOn: [429, 500, 502, 503, 504, 'NETWORK_ERROR', 'TIMEOUT'],
+    methods: ['GET'],
+    // read only requests. safe to retry even when sent with POST
+    endpoints: [
+        'service',
+        'get-users',
+        'get-records',
+        'get-table',
+        'get-tag',
+        'get-index',
+        'get-uniqueid',
+        'get-feed',
+        'get-newsletters',
+        'get-public-newsletters',
+        'get-newsletter-subscription',
+        'get-subscription',
+        'get-ws-group',
+        'get-vapid-public-key'
+    ]
+};
+
+export function normalizeRetryPolicy(policy: RetryPolicy | false, base: Required<RetryPolicy> | false = defaultRetryPolicy): Required<RetryPolicy> | false {
+    if (policy === false) {
+        return false;
+    }
+
+    if (policy === undefined || policy === null) {
+        return base;
+    }
+
+    policy = validator.Params(policy, validator.schema.object({
+        maxAttempts: validator.schema.number().nullable().optional(),
+        baseDelay: validator.schema.number().nullable().optional(),
+        maxDelay: validator.schema.number().nullable().optional(),
+        factor: validator.schema.number().nullable().optional(),
+        jitter: validator.schema.boolean().nullable().optional(),
+        retryOn: validator.schema.array(validator.schema.union(validator.schema.number(), validator.schema.string())).nullable().optional(),
+        methods: validator.schema.array(validator.schema.string()).nullable().optional(),
+        endpoints: validator.schema.array(validator.schema.string()).nullable().optional()
+    }));
+
+    if (typeof policy.maxAttempts === 'number' && policy.maxAttempts < 1) {
+        throw new SkapiError('"maxAttempts" should be greater than 0.', { code: 'INVALID_PARAMETER' });
+    }
+
+    return Object.assign({}, base || defaultRetryPolicy, policy);
+}
+
+function _handleFetchResponse(
+    xhr: { status: number; response: any; responseText: string; getResponseHeader: (name: string) => string | null; },
+    opt: any,
+    res: (v: any) => void,
+    rej: (e: any) => void
+) {
+    // records the response for the middlewares
+    opt.response = {
+        status: xhr.status,
+        headers: { get: (name: string) => xhr.getResponseHeader(name) }
+    };
+
+    // attached to the errors
+    let meta = {
+        status: xhr.status,
+        endpoint: typeof opt.endpoint === 'string' ? opt.endpoint.split('?')[0] : undefined,
+        requestId: xhr.getResponseHeader('x-amzn-requestid') || xhr.getResponseHeader('x-request-id') || undefined
+    };
+
+    if (xhr.status < 400) {
+        // Status codes in the 2xx range mean success
+        if (opt.responseType == 'json' || opt.responseType == 'blob') {
+            res(xhr.response);
+        }
+        else {
+            let result = xhr.responseText;
+            try {
+                result = JSON.parse(result);
+            }
+            catch (err) { }
+            res(result);
+        }
+    }
+
+    else if (xhr.status === 429) {
+        // too many requests. retried by retryAfterMiddleware when Retry-After header is given
+        rej(new SkapiNetworkError('Too many requests.', Object.assign({ code: 'TOO_MANY_REQUESTS' }, meta)));
+    }
+
+    else {
+        // Status codes outside the 2xx range indicate errors
+        let status = xhr.status;
+        let errCode = [
+            'INVALID_CORS',
+            'INVALID_REQUEST',
+            'SERVICE_DISABLED',
+            'INVALID_PARAMETER',
+            'ERROR',
+            'EXISTS',
+            'NOT_EXISTS',
+            'CONFLICT'
+        ];
+
+        let result: any = opt.responseType == 'blob' ? xhr.response : xhr.responseText;
+        try {
+            result = JSON.parse(result);
+        }
+        catch (err) { }
+
+        if (typeof result === 'string') {
+            let errMsg = result.split(':');
+            let code = errMsg.splice(0, 1)[0].trim();
+            rej(toSkapiError(new SkapiError(errMsg.join(':').trim(), Object.assign({ code: (errCode.includes(code) ? code : 'ERROR') }, meta))));
+        }
+
+        else if (typeof result === 'object' && result?.message) {
+            let code = (result?.code || (status ? status.toString() : null) || 'ERROR');
+            let message = result.message;
+            let cause = result?.cause;
+            if (typeof message === 'string') {
+                message = message.trim();
+            }
+            rej(toSkapiError(new SkapiError(message, Object.assign({ cause, code }, meta))));
+        }
+
+        else {
+            rej(toSkapiError(new SkapiError('Something went wrong.', Object.assign({ code: 'ERROR' }, meta))));
+        }
+    }
+}
+
+function _fetchWithoutXhr(url: string, opt: any) {
+    // XMLHttpRequest is not available on node.js. uses fetch api instead (no progress events)
+    return new Promise(
+        (res, rej) => {
+            let deadline = timeoutSignal(opt.signal, opt.timeout);
+            let responded = false;
+
+            fetch(url, {
+                method: opt.method || 'GET',
+                headers: opt.headers,
+                body: opt.body,
+                signal: deadline.signal
+            }).then(async response => {
+                responded = true;
+                let status = response.status;
+                let body: any;
+                let responseText = '';
+
+                if (status < 400 && (opt.responseType == 'json' || opt.responseType == 'blob')) {
+                    body = await response[opt.responseType]();
+                }
+                else {
+                    responseText = await response.text();
+                    body = responseText;
+                }
+
+                _handleFetchResponse({
+                    status,
+                    response: body,
+                    responseText,
+                    getResponseHeader: (name: string) => response.headers.get(name)
+                }, opt, res, rej);
+            }).catch(err => rej(
+                // fetch rejects with TypeError before any response when the request could not be sent
+                deadline.timedOut() ? timeoutError() : err?.name === 'AbortError' ? abortError() : networkError(responded)
+            )).finally(deadline.clear);
+        }
+    );
+}
+
 function _fetch(url: string, opt: any, progress?: ProgressCallback) {
+    if (typeof XMLHttpRequest === 'undefined') {
+        return _fetchWithoutXhr(url, opt);
+    }
+
     return new Promise(
         (res, rej) => {
             let xhr = new XMLHttpRequest();
@@ -492,79 +901,26 @@ function _fetch(url: string, opt: any, progress?: ProgressCallback) {
                 xhr.responseType = opt.responseType;
             }
 
-            xhr.onload = () => {
-                if (xhr.status < 400) {
-                    // Status codes in the 2xx range mean success
-                    if (opt.responseType == 'json' || opt.responseType == 'blob') {
-                        res(xhr.response);
-                    }
-                    else {
-                        let result = xhr.responseText;
-                        try {
-                            result = JSON.parse(result);
-                        }
-                        catch (err) { }
-                        res(result);
-                    }
-                }
-
-                else if (xhr.status === 429) {
-                    // too many requests
-                    let retryAfter = xhr.getResponseHeader('Retry-After');
-                    if (retryAfter) {
-                        setTimeout(() => {
-                            _fetch(url, opt, progress).then(res, rej);
-                        }, parseInt(retryAfter) * 1000);
-                    }
-                    else {
-                        rej('Too many requests');
-                    }
-                }
+            xhr.onload = () => _handleFetchResponse(xhr, opt, res, rej);
 
-                else {
-                    // Status codes outside the 2xx range indicate errors
-                    let status = xhr.status;
-                    let errCode = [
-                        'INVALID_CORS',
-                        'INVALID_REQUEST',
-                        'SERVICE_DISABLED',
-                        'INVALID_PARAMETER',
-                        'ERROR',
-                        'EXISTS',
-                        'NOT_EXISTS'
-                    ];
-
-                    let result: any = opt.responseType == 'blob' ? xhr.response : xhr.responseText;
-                    try {
-                        result = JSON.parse(result);
-                    }
-                    catch (err) { }
-
-                    if (typeof result === 'string') {
-                        let errMsg = xhr.response.split(':');
-                        let code = errMsg.splice(0, 1)[0].trim();
-                        rej(new SkapiError(errMsg.join(':').trim(), { code: (errCode.includes(code) ? code : 'ERROR') }));
-                    }
+            let sent = trackSent(xhr);
+            xhr.onerror = () => rej(networkError(sent()));
+            xhr.onabort = () => rej(abortError());
+            xhr.ontimeout = () => rej(timeoutError());
 
-                    else if (typeof result === 'object' && result?.message) {
-                        let code = (result?.code || (status ? status.toString() : null) || 'ERROR');
-                        let message = result.message;
-                        let cause = result?.cause;
-                        if (typeof message === 'string') {
-                            message = message.trim();
-                        }
-                        rej(new SkapiError(message, { cause, code }));
-                    }
+            if (opt.timeout) {
+                xhr.timeout = opt.timeout;
+            }
 
-                    else {
-                        rej(result);
-                    }
+            if (opt.signal) {
+                if (opt.signal.aborted) {
+                    rej(abortError());
+                    return;
                 }
-            };
-
-            xhr.onerror = () => rej('Network error');
-            xhr.onabort = () => rej('Aborted');
-            xhr.ontimeout = () => rej('Timeout');
+                let onAbort = () => xhr.abort();
+                opt.signal.addEventListener('abort', onAbort, { once: true });
+                xhr.onloadend = () => opt.signal.removeEventListener('abort', onAbort);
+            }
 
             if (typeof progress === 'function') {
                 xhr.onprogress = (p: ProgressEvent) => {
@@ -598,6 +954,165 @@ function _fetch(url: string, opt: any, progress?: ProgressCallback) {
     );
 }
 
+async function loggingMiddleware(ctx: RequestContext, next: () => Promise<any>) {
+    let requestEvent = { url: ctx.url, endpoint: ctx.endpoint, method: ctx.method };
+    this._emit('requestStart', requestEvent);
+
+    try {
+        let result = await next();
+        this.log('request:end', result);
+        this._emit('requestEnd', Object.assign({ result }, requestEvent));
+        return result;
+    }
+    catch (err) {
+        this.log('request:err', err);
+        this._emit('requestError', Object.assign({ error: err }, requestEvent));
+        throw err;
+    }
+}
+
+async function retryAfterMiddleware(ctx: RequestContext, next: () => Promise<any>) {
+    try {
+        return await next();
+    }
+    catch (err) {
+        let retryAfter = ctx.response?.status === 429 ? ctx.response.headers.get('Retry-After') : null;
+        if (!retryAfter) {
+            throw err;
+        }
+
+        // too many requests
+        await new Promise(res => setTimeout(res, parseInt(retryAfter) * 1000));
+        if (ctx.signal?.aborted) {
+            throw abortError();
+        }
+        delete ctx.response;
+        return retryAfterMiddleware(ctx, next);
+    }
+}
+
+function isIdempotent(ctx: RequestContext): boolean {
+    let policy = ctx.retry || defaultRetryPolicy;
+    return policy.methods.map(m => m.toUpperCase()).includes(ctx.method) || policy.endpoints.includes(ctx.url);
+}
+
+function isRetryable(ctx: RequestContext, err: any): boolean {
+    let policy = ctx.retry;
+    if (!policy || !isIdempotent(ctx)) {
+        return false;
+    }
+
+    let status = ctx.response?.status;
+    if (status === 429 && ctx.response.headers.get('Retry-After')) {
+        // handled by retryAfterMiddleware
+        return false;
+    }
+
+    return policy.retryOn.includes(status) || policy.retryOn.includes(err?.code);
+}
+
+async function retryPolicyMiddleware(ctx: RequestContext, next: () => Promise<any>) {
+    let attempt = 1;
+
+    while (true) {
+        try {
+            return await next();
+        }
+        catch (err) {
+            if (!ctx.retry || attempt >= ctx.retry.maxAttempts || ctx.signal?.aborted || !isRetryable(ctx, err)) {
+                throw err;
+            }
+
+            // exponential backoff
+            let delay = Math.min(ctx.retry.maxDelay, ctx.retry.baseDelay * Math.pow(ctx.retry.factor, attempt - 1));
+            if (ctx.retry.jitter) {
+                delay = Math.random() * delay;
+            }
+
+            this.log('request:retry', { url: ctx.url, attempt, delay });
+            await new Promise(res => setTimeout(res, delay));
+
+            if (ctx.signal?.aborted) {
+                throw abortError();
+            }
+
+            delete ctx.response;
+            attempt++;
+        }
+    }
+}
+
+function isGatewayFailure(ctx: RequestContext, err: any): boolean {
+    return err?.code === 'NETWORK_ERROR' || err?.code === 'TIMEOUT' || [502, 503, 504].includes(ctx.response?.status);
+}
+
+async function gatewayFailoverMiddleware(ctx: RequestContext, next: () => Promise<any>) {
+    let gateway = Object.keys(this.__gatewayTwins).find(g => ctx.endpoint.startsWith(g));
+    if (!gateway) {
+        // not a round-robin gateway
+        return next();
+    }
+
+    try {
+        let result = await next();
+        reportGatewayHealth.bind(this)(gateway, true);
+        return result;
+    }
+    catch (err) {
+        if (!isGatewayFailure(ctx, err)) {
+            // gateway is working. error is from the request itself
+            reportGatewayHealth.bind(this)(gateway, true);
+            throw err;
+        }
+
+        reportGatewayHealth.bind(this)(gateway, false);
+
+        let twin = this.__gatewayTwins[gateway];
+        // non idempotent requests are not resent, the request could have been processed
+        if (!twin || twin === gateway || ctx.signal?.aborted || !isIdempotent(ctx) || !isGatewayHealthy.bind(this)(twin)) {
+            throw err;
+        }
+
+        this.log('request:failover', { from: gateway, to: twin });
+        ctx.endpoint = twin + ctx.endpoint.slice(gateway.length);
+        delete ctx.response;
+
+        try {
+            let result = await next();
+            reportGatewayHealth.bind(this)(twin, true);
+            return result;
+        }
+        catch (err) {
+            if (isGatewayFailure(ctx, err)) {
+                reportGatewayHealth.bind(this)(twin, false);
+            }
+            throw err;
+        }
+    }
+}
+
+function runMiddlewares(ctx: RequestContext): Promise<any> {
+    // middlewares registered by skapi.use() run once per request, outside of the retries and gateway failover
+    const middlewares: Middleware[] = [
+        loggingMiddleware.bind(this),
+        ...this.__middlewares,
+        retryAfterMiddleware,
+        retryPolicyMiddleware.bind(this),
+        gatewayFailoverMiddleware.bind(this)
+    ];
+
+    // next() can be called multiple times (ex. retries)
+    const dispatch = (i: number): Promise<any> => {
+        let fn = middlewares[i];
+        if (!fn) {
+            return _fetch(ctx.endpoint, ctx, ctx.progress);
+        }
+        return Promise.resolve().then(() => fn(ctx, () => dispatch(i + 1)));
+    };
+
+    return dispatch(0);
+}
+
 function update_startKey_keys(option: Record<string, any>) {
     let { hashedParam, url, fetched } = option;
 
@@ -647,27 +1162,53 @@ export async function uploadFiles(
     params: {
         record_id: string; // Record ID of a record to upload files to.
         progress?: ProgressCallback;
-    }
+        signal?: AbortSignal; // Cancels remaining uploads when aborted.
+        timeout?: number; // Timeout of each file upload in milliseconds. 0 for no timeout.
+    },
+    _etc?: { offlineReplay?: boolean; }
 ): Promise<{ completed: File[]; failed: File[]; bin_endpoints: string[] }> {
     await this.__connection;
-    let { record_id, service = this.service, progress } = (params as { [key: string]: any })
+    let { record_id, service = this.service, progress, signal } = (params as { [key: string]: any })
+    let timeout = typeof params?.timeout === 'number' ? validateTimeout(params.timeout) : this.__timeout;
+
+    if (signal?.aborted) {
+        throw abortError();
+    }
 
     if (!record_id) {
         throw new SkapiError('"record_id" is required.', { code: 'INVALID_PARAMETER' });
     }
 
-    if (fileList instanceof SubmitEvent) {
-        fileList = (fileList.target as HTMLFormElement);
+    if (isInstanceOf(fileList, 'SubmitEvent')) {
+        fileList = ((fileList as SubmitEvent).target as HTMLFormElement);
     }
 
-    if (fileList instanceof HTMLFormElement) {
-        fileList = new FormData(fileList);
+    if (isInstanceOf(fileList, 'HTMLFormElement')) {
+        fileList = new FormData(fileList as HTMLFormElement);
     }
 
     if (!(fileList instanceof FormData)) {
         throw new SkapiError('"fileList" should be a FormData or HTMLFormElement.', { code: 'INVALID_PARAMETER' });
     }
 
+    // files are queued in offline mode when the upload cannot start
+    let queueOffline = (files: [string, File][]) => queueOfflineJob.bind(this)('uploadFiles', [
+        files.map(([name, file]) => ({ name, file })),
+        toStorable(params)
+    ]);
+
+    let fileEntries: [string, File][] = [];
+    for (let [key, f] of (fileList as any).entries()) {
+        if (f instanceof File) {
+            fileEntries.push([key, f]);
+        }
+    }
+
+    if (!_etc?.offlineReplay && await shouldQueueOffline.bind(this)()) {
+        await queueOffline(fileEntries);
+        return { completed: [], failed: [], bin_endpoints: [] };
+    }
+
     let reserved_key = generateRandom();
 
     let getSignedParams: Record<string, any> = {
@@ -687,6 +1228,36 @@ export async function uploadFiles(
         body: FormData,
         progressCallback: (p: ProgressEvent) => void
     ) => {
+        if (typeof XMLHttpRequest === 'undefined') {
+            // node.js: upload with fetch api (no progress events)
+            let deadline = timeoutSignal(signal, timeout);
+            let responded = false;
+            return fetch(url, { method: 'POST', body, signal: deadline.signal }).then(async response => {
+                responded = true;
+                let result: any = await response.text();
+                try {
+                    result = JSON.parse(result);
+                }
+                catch (err) { }
+                if (response.status >= 200 && response.status < 300) {
+                    return result;
+                }
+                else if (response.status === 429) {
+                    // too many requests
+                    let retryAfter = response.headers.get('Retry-After');
+                    if (retryAfter) {
+                        await new Promise(res => setTimeout(res, parseInt(retryAfter) * 1000));
+                        return fetchProgress(url, body, progressCallback);
+                    }
+                    throw new SkapiNetworkError('Too many requests.', { code: 'TOO_MANY_REQUESTS', status: 429, endpoint: url });
+                }
+                throw toSkapiError(new SkapiError(typeof result === 'string' && result ? result : 'Failed to upload file.', { code: 'ERROR', status: response.status, endpoint: url }));
+            }).catch(err => {
+                // fetch rejects with TypeError when the request could not be sent
+                throw deadline.timedOut() ? timeoutError() : err?.name === 'AbortError' ? abortError() : err instanceof SkapiError ? err : networkError(responded);
+            }).finally(deadline.clear);
+        }
+
         return new Promise((res, rej) => {
             xhr = new XMLHttpRequest();
             xhr.open('POST', url);
@@ -708,16 +1279,28 @@ export async function uploadFiles(
                         }, parseInt(retryAfter) * 1000);
                     }
                     else {
-                        rej('Too many requests');
+                        rej(new SkapiNetworkError('Too many requests.', { code: 'TOO_MANY_REQUESTS', status: 429, endpoint: url }));
                     }
                 }
                 else {
-                    rej(result);
+                    rej(toSkapiError(new SkapiError(typeof result === 'string' && result ? result : 'Failed to upload file.', { code: 'ERROR', status: xhr.status, endpoint: url })));
                 }
             };
-            xhr.onerror = () => rej('Network error');
-            xhr.onabort = () => rej('Aborted');
-            xhr.ontimeout = () => rej('Timeout');
+            let sent = trackSent(xhr);
+            xhr.onerror = () => rej(networkError(sent()));
+            xhr.onabort = () => rej(abortError());
+            xhr.ontimeout = () => rej(timeoutError());
+
+            if (timeout) {
+                xhr.timeout = timeout;
+            }
+
+            if (signal) {
+                let request = xhr;
+                let onAbort = () => request.abort();
+                signal.addEventListener('abort', onAbort, { once: true });
+                xhr.onloadend = () => signal.removeEventListener('abort', onAbort);
+            }
 
             // xhr.addEventListener('error', rej);
             if (xhr.upload && typeof progressCallback === 'function') {
@@ -739,22 +1322,25 @@ export async function uploadFiles(
         return result;
     }
 
-    if (queue === null) {
-        queue = new Queuecumber({
+    if (this.__queue === null) {
+        this.__queue = new Queuecumber({
             batchSize: this.requestBatchSize,
             breakWhenError: false
         });
     }
 
-    return new Promise((res, rej) => {
-        queue.add([async () => {
+    return abortable(signal, (res, rej) => {
+        this.__queue.add([async () => {
             let completed = [];
             let failed = [];
             let bin_endpoints = [];
 
-            for (let [key, f] of (fileList as any).entries()) {
-                if (!(f instanceof File)) {
-                    continue;
+            for (let i = 0; i < fileEntries.length; i++) {
+                let [key, f] = fileEntries[i];
+
+                if (signal?.aborted) {
+                    // stop uploading remaining files
+                    return null;
                 }
 
                 let signedParams = Object.assign({
@@ -763,7 +1349,22 @@ export async function uploadFiles(
                     contentType: f.type || null
                 }, getSignedParams);
 
-                let { fields = null, url, cdn } = await request.bind(this)('get-signed-url', signedParams, { auth: !!this.__user });
+                let signed;
+                try {
+                    signed = await request.bind(this)('get-signed-url', signedParams, { auth: !!this.__user, fetchOptions: { signal } });
+                } catch (err) {
+                    if (signal?.aborted) {
+                        return null;
+                    }
+                    if (!_etc?.offlineReplay && isOfflineError.bind(this)(err)) {
+                        // queue the remaining files
+                        await queueOffline(fileEntries.slice(i));
+                        break;
+                    }
+                    rej(err);
+                    return null;
+                }
+                let { fields = null, url, cdn } = signed;
 
                 bin_endpoints.push(cdn);
 
@@ -779,9 +1380,9 @@ export async function uploadFiles(
                     await fetchProgress(
                         url,
                         form,
-                        typeof progress === 'function' ? (p: ProgressEvent) => progress(
-                            {
-                                status: 'upload',
+                        (p: ProgressEvent) => {
+                            let uploadProgress = {
+                                status: 'upload' as 'upload',
                                 progress: p.loaded / p.total * 100,
                                 currentFile: f,
                                 completed,
@@ -789,8 +1390,12 @@ export async function uploadFiles(
                                 loaded: p.loaded,
                                 total: p.total,
                                 abort: () => xhr.abort()
+                            };
+                            this._emit('uploadProgress', uploadProgress);
+                            if (typeof progress === 'function') {
+                                progress(uploadProgress);
                             }
-                        ) : null
+                        }
                     );
                     completed.push(f);
                 } catch (err) {
@@ -804,8 +1409,6 @@ export async function uploadFiles(
     });
 }
 
-const pendPromise: Record<string, Promise<any> | null> = {};
-
 export function formHandler(options?: { preventMultipleCalls: boolean; }) {
     let { preventMultipleCalls = false } = options || {};
 
@@ -820,7 +1423,8 @@ export function formHandler(options?: { preventMultipleCalls: boolean; }) {
             let actionDestination = '';
             let fileBase64String = {};
             let refreshPage = false;
-            if (form instanceof SubmitEvent) {
+            if (isInstanceOf(form, 'SubmitEvent')) {
+                form = form as SubmitEvent;
                 form.preventDefault();
 
                 let currentUrl = location.href;
@@ -854,14 +1458,7 @@ export function formHandler(options?: { preventMultipleCalls: boolean; }) {
                                     fileBase64String[p] = [];
                                 }
 
-                                fileBase64String[p].push(new Promise((res, rej) => {
-                                    let reader = new FileReader();
-                                    reader.onload = function () {
-                                        res(reader.result);
-                                    };
-                                    reader.readAsDataURL(inputElement.files[i]);
-                                    reader.onerror = rej;
-                                }));
+                                fileBase64String[p].push(blobToDataURL(inputElement.files[i]));
                             }
                         }
                         else {
@@ -889,7 +1486,7 @@ export function formHandler(options?: { preventMultipleCalls: boolean; }) {
 
                 if (formEl) {
                     if (storeResponseKey) {
-                        sessionStorage.setItem(`${this.service}:${MD5.hash(actionDestination)}`, JSON.stringify(response));
+                        await this.__storage.set(`${this.service}:${MD5.hash(actionDestination)}`, JSON.stringify(response));
                         if (refreshPage) {
                             location.replace(actionDestination);
                         }
@@ -904,15 +1501,7 @@ export function formHandler(options?: { preventMultipleCalls: boolean; }) {
 
             let response: any;
             let handleError = (err: any) => {
-                if (err instanceof SkapiError) {
-                    err.name = propertyKey + '()';
-                }
-
-                else {
-                    err = err instanceof Error ? err : new SkapiError(err, { name: propertyKey + '()' });
-                }
-
-                throw err;
+                throw localizeError.bind(this)(toSkapiError(err, { name: propertyKey + '()' }));
             };
 
             const executeMethod = async () => {
@@ -933,13 +1522,13 @@ export function formHandler(options?: { preventMultipleCalls: boolean; }) {
             };
 
             if (preventMultipleCalls) {
-                if (!pendPromise?.[propertyKey]) {
-                    pendPromise[propertyKey] = executeMethod().finally(() => {
-                        delete pendPromise[propertyKey];
+                if (!this.__pendPromise?.[propertyKey]) {
+                    this.__pendPromise[propertyKey] = executeMethod().finally(() => {
+                        delete this.__pendPromise[propertyKey];
                     });
                 }
 
-                return pendPromise[propertyKey];
+                return this.__pendPromise[propertyKey];
             }
 
             return executeMethod();
@@ -949,9 +1538,12 @@ export function formHandler(options?: { preventMultipleCalls: boolean; }) {
 
 export async function getFormResponse(): Promise<any> {
     await this.__connection;
+    if (!isBrowser) {
+        throw new SkapiError('getFormResponse() is only available on web browsers.', { code: 'NOT_SUPPORTED' });
+    }
     let responseKey = `${this.service}:${MD5.hash(location.href.split('?')[0])}`;
-    let stored = sessionStorage.getItem(responseKey);
-    sessionStorage.removeItem(responseKey);
+    let stored = await this.__storage.get(responseKey);
+    await this.__storage.remove(responseKey);
 
     if (stored !== null) {
         try {
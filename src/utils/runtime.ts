@@ -0,0 +1,41 @@
+// Runtime environment helpers.
+// skapi runs on browsers, but the data methods can also be used on Node.js (ex. server side rendering).
+// Browser only APIs should be checked here before use.
+
+const isBrowser = typeof window !== 'undefined' && typeof document !== 'undefined';
+
+/**
+ * instanceof check that does not throw when the constructor does not exist in the runtime.
+ * ex) isInstanceOf(form, 'SubmitEvent') returns false on Node.js
+ */
+function isInstanceOf(value: any, constructorName: string): boolean {
+    let ctor = typeof globalThis !== 'undefined' ? globalThis[constructorName] : undefined;
+    return typeof ctor === 'function' && value instanceof ctor;
+}
+
+/**
+ * Reads blob as a data url string. Uses FileReader when available.
+ */
+async function blobToDataURL(blob: Blob): Promise<string> {
+    if (typeof FileReader === 'function') {
+        return new Promise((res, rej) => {
+            const reader = new FileReader();
+            reader.onloadend = () => res(reader.result as string);
+            reader.onerror = rej;
+            reader.readAsDataURL(blob);
+        });
+    }
+
+    let bytes = new Uint8Array(await blob.arrayBuffer());
+    let binary = '';
+    for (let i = 0; i < bytes.length; i++) {
+        binary += String.fromCharCode(bytes[i]);
+    }
+    return `data:${blob.type || 'application/octet-stream'};base64,${btoa(binary)}`;
+}
+
+export {
+    isBrowser,
+    isInstanceOf,
+    blobToDataURL
+};
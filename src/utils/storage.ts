@@ -0,0 +1,136 @@
+import SkapiError from '../main/error';
+import { StorageAdapter } from '../Types';
+
+/**
+ * Keeps everything in memory.
+ * Data is lost when the instance is garbage collected or the page reloads.
+ */
+class MemoryStorage implements StorageAdapter {
+    private store = new Map<string, string>();
+
+    get(key: string): string | null {
+        return this.store.has(key) ? this.store.get(key) : null;
+    }
+
+    set(key: string, value: string): void {
+        this.store.set(key, value);
+    }
+
+    remove(key: string): void {
+        this.store.delete(key);
+    }
+}
+
+/**
+ * Wraps browser Web Storage API (localStorage, sessionStorage).
+ */
+class WebStorage implements StorageAdapter {
+    private storage: Storage;
+
+    constructor(storage: Storage) {
+        if (!storage) {
+            throw new SkapiError('Web storage is not available.', { code: 'NOT_SUPPORTED' });
+        }
+        this.storage = storage;
+    }
+
+    get(key: string): string | null {
+        return this.storage.getItem(key);
+    }
+
+    set(key: string, value: string): void {
+        this.storage.setItem(key, value);
+    }
+
+    remove(key: string): void {
+        this.storage.removeItem(key);
+    }
+}
+
+/**
+ * Stores data in IndexedDB.
+ * All methods are async. Values are stored with structured clone, so non-string values (ex. Blob) can be stored as well.
+ */
+class IndexedDBStorage implements StorageAdapter {
+    private dbName: string;
+    private storeName = 'keyval';
+    private db: Promise<IDBDatabase> | null = null;
+
+    constructor(dbName: string = 'skapi') {
+        if (typeof indexedDB === 'undefined') {
+            throw new SkapiError('IndexedDB is not available.', { code: 'NOT_SUPPORTED' });
+        }
+        this.dbName = dbName;
+    }
+
+    private open(): Promise<IDBDatabase> {
+        if (!this.db) {
+            this.db = new Promise((res, rej) => {
+                let req = indexedDB.open(this.dbName, 1);
+                req.onupgradeneeded = () => {
+                    req.result.createObjectStore(this.storeName);
+                };
+                req.onsuccess = () => res(req.result);
+                req.onerror = () => rej(req.error);
+            });
+        }
+        return this.db;
+    }
+
+    private async exec(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest): Promise<any> {
+        let db = await this.open();
+        return new Promise((res, rej) => {
+            let req = fn(db.transaction(this.storeName, mode).objectStore(this.storeName));
+            req.onsuccess = () => res(req.result);
+            req.onerror = () => rej(req.error);
+        });
+    }
+
+    async get(key: string): Promise<any> {
+        let value = await this.exec('readonly', store => store.get(key));
+        return value === undefined ? null : value;
+    }
+
+    async set(key: string, value: any): Promise<void> {
+        await this.exec('readwrite', store => store.put(value, key));
+    }
+
+    async remove(key: string): Promise<void> {
+        await this.exec('readwrite', store => store.delete(key));
+    }
+
+    async keys(): Promise<string[]> {
+        return (await this.exec('readonly', store => store.getAllKeys())).map(k => k.toString());
+    }
+}
+
+function resolveStorage(storage: StorageAdapter | 'memory' | 'localStorage' | 'sessionStorage' | 'indexedDB'): StorageAdapter {
+    switch (storage) {
+        case 'memory':
+            return new MemoryStorage();
+        case 'localStorage':
+            return new WebStorage(typeof localStorage !== 'undefined' ? localStorage : undefined);
+        case 'sessionStorage':
+            return new WebStorage(typeof sessionStorage !== 'undefined' ? sessionStorage : undefined);
+        case 'indexedDB':
+            return new IndexedDBStorage();
+    }
+
+    if (
+        storage && typeof storage === 'object' &&
+        typeof storage.get === 'function' &&
+        typeof storage.set === 'function' &&
+        typeof storage.remove === 'function'
+    ) {
+        return storage;
+    }
+
+    throw new SkapiError('"storage" should be type: <StorageAdapter | "memory" | "localStorage" | "sessionStorage" | "indexedDB">.', { code: 'INVALID_PARAMETER' });
+}
+
+export {
+    MemoryStorage,
+    WebStorage,
+    IndexedDBStorage,
+    resolveStorage
+};
@@ -1,4 +1,5 @@
 import SkapiError from "../main/error";
+import { isInstanceOf } from "./runtime";
 
 class MD5 {
     private static readonly alphabet = '0123456789abcdef';
@@ -269,10 +270,10 @@ function extractFormData(
     }
 
     function handleFile(files, name, v) {
-        if (v instanceof File) {
+        if (isInstanceOf(v, 'File')) {
             files.push({ name, file: v });
         }
-        else if (v instanceof FileList) {
+        else if (isInstanceOf(v, 'FileList')) {
             if (v && v.length > 0) {
                 for (let idx = 0; idx <= v.length - 1; idx++) {
                     let file = v.item(idx)
@@ -323,7 +324,7 @@ function extractFormData(
         }
     }
 
-    if (form instanceof HTMLInputElement || form instanceof HTMLSelectElement || form instanceof HTMLTextAreaElement) {
+    if (isInstanceOf(form, 'HTMLInputElement') || isInstanceOf(form, 'HTMLSelectElement') || isInstanceOf(form, 'HTMLTextAreaElement')) {
         handleInput(form as HTMLInputElement);
         if (sizeof(data) > 2 * 1024 * 1024) {
             throw new SkapiError('Data should not exceed 2MB', { code: 'INVALID_REQUEST' });
@@ -336,7 +337,7 @@ function extractFormData(
             for (let pair of form.entries()) {
                 let name = pair[0];
                 let v = pair[1];
-                if ((v instanceof File) || ((v as any) instanceof FileList)) {
+                if (isInstanceOf(v, 'File') || isInstanceOf(v, 'FileList')) {
                     handleFile(files, name, v);
                 }
                 else if ((v as any) instanceof Blob) {
@@ -360,13 +361,14 @@ function extractFormData(
             }
             return { data, files };
         }
-        if (form instanceof SubmitEvent) {
-            form = form.target;
+        if (isInstanceOf(form, 'SubmitEvent')) {
+            form = (form as SubmitEvent).target;
         }
-        if (form instanceof HTMLFormElement) {
-            let inputs = form.querySelectorAll('input');
-            let selects = form.querySelectorAll('select');
-            let textarea = form.querySelectorAll('textarea');
+        if (isInstanceOf(form, 'HTMLFormElement')) {
+            let formEl = form as HTMLFormElement;
+            let inputs = formEl.querySelectorAll('input');
+            let selects = formEl.querySelectorAll('select');
+            let textarea = formEl.querySelectorAll('textarea');
             for (let idx = 0; idx < selects.length; idx++) {
                 let i = selects[idx];
                 if (i.name) {
@@ -1,5 +1,6 @@
 
 import SkapiError from '../main/error';
+import { ValidationIssue } from '../Types';
 import { extractFormData } from './utils';
 
 function UserId(id: string, param = 'User ID') {
@@ -7,13 +8,13 @@ function UserId(id: string, param = 'User ID') {
     // let uuid_regex = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
     let uuid_regex = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
     if (!id) {
-        throw new SkapiError(`${param} is empty.`, { code: 'INVALID_PARAMETER' });
+        throw new SkapiError(`${param} is empty.`, { code: 'INVALID_PARAMETER', messageId: 'empty', messageParams: { param } });
     }
     else if (typeof id !== 'string') {
-        throw new SkapiError(`${param} should be type: string.`, { code: 'INVALID_PARAMETER' });
+        throw new SkapiError(`${param} should be type: string.`, { code: 'INVALID_PARAMETER', messageId: 'type', messageParams: { param, type: 'string' } });
     }
     else if (!id.match(uuid_regex)) {
-        throw new SkapiError(`${param} is invalid.`, { code: 'INVALID_PARAMETER' });
+        throw new SkapiError(`${param} is invalid.`, { code: 'INVALID_PARAMETER', messageId: 'invalid', messageParams: { param } });
     }
 
     return id;
@@ -22,7 +23,7 @@ function UserId(id: string, param = 'User ID') {
 function PhoneNumber(value: string) {
     if (value) {
         if (typeof value !== 'string' || value.charAt(0) !== '+' || isNaN(Number(value.substring(1)))) {
-            throw new SkapiError('"phone_number" is invalid. The format should be "+00123456789". Type: string.', { code: 'INVALID_PARAMETER' });
+            throw new SkapiError('"phone_number" is invalid. The format should be "+00123456789". Type: string.', { code: 'INVALID_PARAMETER', messageId: 'phone_number' });
         }
     }
     return value || '';
@@ -32,13 +33,13 @@ function Birthdate(birthdate: string) {
     // yyyy-mm-dd
     if (birthdate) {
         if (typeof birthdate !== 'string') {
-            throw new SkapiError('"birthdate" is invalid. The format should be "yyyy-mm-dd". Type: string.', { code: 'INVALID_PARAMETER' });
+            throw new SkapiError('"birthdate" is invalid. The format should be "yyyy-mm-dd". Type: string.', { code: 'INVALID_PARAMETER', messageId: 'birthdate' });
         }
 
         else {
             let date_regex = new RegExp(/([12]\d{3}-(0[1-9]|1[0-2])-(0[1-9]|[12]\d|3[01]))/);
             if (birthdate.length !== 10 || birthdate.split('-').length !== 3 || !date_regex.test(birthdate)) {
-                throw new SkapiError('"birthdate" is invalid. The format should be "yyyy-mm-dd". Type: string.', { code: 'INVALID_PARAMETER' });
+                throw new SkapiError('"birthdate" is invalid. The format should be "yyyy-mm-dd". Type: string.', { code: 'INVALID_PARAMETER', messageId: 'birthdate' });
             }
         }
     }
@@ -47,16 +48,16 @@ function Birthdate(birthdate: string) {
 
 function Password(password: string) {
     if (!password) {
-        throw new SkapiError('"password" is required.', { code: 'INVALID_PARAMETER' });
+        throw new SkapiError('"password" is required.', { code: 'INVALID_PARAMETER', messageId: 'required', messageParams: { param: 'password' } });
     }
     else if (typeof password !== 'string') {
-        throw new SkapiError('"password" should be type: string.', { code: 'INVALID_PARAMETER' });
+        throw new SkapiError('"password" should be type: string.', { code: 'INVALID_PARAMETER', messageId: 'type', messageParams: { param: '"password"', type: 'string' } });
     }
     else if (password.length < 6) {
-        throw new SkapiError('"password" should be at least 6 characters.', { code: 'INVALID_PARAMETER' });
+        throw new SkapiError('"password" should be at least 6 characters.', { code: 'INVALID_PARAMETER', messageId: 'min_length', messageParams: { param: 'password', min: 6 } });
     }
     else if (password.length > 60) {
-        throw new SkapiError('"password" can be up to 60 characters max.', { code: 'INVALID_PARAMETER' });
+        throw new SkapiError('"password" can be up to 60 characters max.', { code: 'INVALID_PARAMETER', messageId: 'max_length', messageParams: { param: 'password', max: 60 } });
     }
 
     return password;
@@ -64,15 +65,15 @@ function Password(password: string) {
 
 function Email(email: string, paramName: string = 'email') {
     if (!email) {
-        throw new SkapiError(`"${paramName}" is required.`, { code: 'INVALID_PARAMETER' });
+        throw new SkapiError(`"${paramName}" is required.`, { code: 'INVALID_PARAMETER', messageId: 'required', messageParams: { param: paramName } });
     }
 
     else if (typeof email !== 'string') {
-        throw new SkapiError(`"${paramName}"should be type: string.`, { code: 'INVALID_PARAMETER' });
+        throw new SkapiError(`"${paramName}"should be type: string.`, { code: 'INVALID_PARAMETER', messageId: 'type', messageParams: { param: `"${paramName}"`, type: 'string' } });
     }
 
     else if (email.length < 5) {
-        throw new SkapiError(`"${paramName}" should be at least 5 characters.`, { code: 'INVALID_PARAMETER' });
+        throw new SkapiError(`"${paramName}" should be at least 5 characters.`, { code: 'INVALID_PARAMETER', messageId: 'min_length', messageParams: { param: paramName, min: 5 } });
     }
 
     else if (/^[a-zA-Z0-9.!#$%&'*+/=?^_`{|}~-]+@[a-zA-Z0-9-]+(?:\.[a-zA-Z0-9-]+)*$/.test(email)) {
@@ -85,12 +86,12 @@ function Email(email: string, paramName: string = 'email') {
         }
     }
 
-    throw new SkapiError(`"${email}" is an invalid email.`, { code: 'INVALID_PARAMETER' });
+    throw new SkapiError(`"${email}" is an invalid email.`, { code: 'INVALID_PARAMETER', messageId: 'email', messageParams: { value: email } });
 }
 
 function Url(url: string | string[]) {
     const baseUrl = (() => {
-        let baseUrl = location.origin || null;
+        let baseUrl = typeof location !== 'undefined' ? location.origin || null : null;
         if (baseUrl && baseUrl.slice(-1) === '/') {
             baseUrl = baseUrl.slice(0, -1);
         }
@@ -106,13 +107,13 @@ function Url(url: string | string[]) {
                 let cu = c.trim();
                 if (cu[0] === '/' && baseUrl) {
                     if (baseUrl.slice(0, 5) === 'file:') {
-                        throw new SkapiError(`"${c}" is an invalid url. Relative URL does not work on local file system. Use full URL string.`, { code: 'INVALID_PARAMETER' });
+                        throw new SkapiError(`"${c}" is an invalid url. Relative URL does not work on local file system. Use full URL string.`, { code: 'INVALID_PARAMETER', messageId: 'relative_url', messageParams: { value: c } });
                     }
                     cu = baseUrl + cu;
                 }
                 else if (cu[0] === '.' && baseUrl) {
                     if (baseUrl.slice(0, 5) === 'file:') {
-                        throw new SkapiError(`"${c}" is an invalid url. Relative URL does not work on local file system. Use full URL string.`, { code: 'INVALID_PARAMETER' });
+                        throw new SkapiError(`"${c}" is an invalid url. Relative URL does not work on local file system. Use full URL string.`, { code: 'INVALID_PARAMETER', messageId: 'relative_url', messageParams: { value: c } });
                     }
                     let curr_loc = location.href.split('?')[0];
                     if (curr_loc.slice(-1) !== '/') {
@@ -128,7 +129,7 @@ function Url(url: string | string[]) {
                     _url = new URL(cu);
                 }
                 catch (err) {
-                    throw new SkapiError(`"${c}" is an invalid url.`, { code: 'INVALID_PARAMETER' });
+                    throw new SkapiError(`"${c}" is an invalid url.`, { code: 'INVALID_PARAMETER', messageId: 'url', messageParams: { value: c } });
                 }
 
                 if (_url.protocol) {
@@ -138,7 +139,7 @@ function Url(url: string | string[]) {
             }
         }
 
-        throw new SkapiError(`"${c}" is an invalid url.`, { code: 'INVALID_PARAMETER' });
+        throw new SkapiError(`"${c}" is an invalid url.`, { code: 'INVALID_PARAMETER', messageId: 'url', messageParams: { value: c } });
     };
 
     if (Array.isArray(url)) {
@@ -157,19 +158,19 @@ function specialChars(
 ) {
     let checkStr = (s: string) => {
         if (typeof s !== 'string') {
-            throw new SkapiError(`${p} should be type: <string | string[]>.`, { code: 'INVALID_PARAMETER' });
+            throw new SkapiError(`${p} should be type: <string | string[]>.`, { code: 'INVALID_PARAMETER', messageId: 'type', messageParams: { param: p, type: '<string | string[]>' } });
         }
 
         if (!allowWhiteSpace && s.includes(' ')) {
-            throw new SkapiError(`${p} should not have whitespace.`, { code: 'INVALID_PARAMETER' });
+            throw new SkapiError(`${p} should not have whitespace.`, { code: 'INVALID_PARAMETER', messageId: 'whitespace', messageParams: { param: p } });
         }
 
         if (!allowPeriods && s.includes('.')) {
-            throw new SkapiError(`${p} should not have periods.`, { code: 'INVALID_PARAMETER' });
+            throw new SkapiError(`${p} should not have periods.`, { code: 'INVALID_PARAMETER', messageId: 'periods', messageParams: { param: p } });
         }
         // allowed => [\]^_`:;<=>?@
         if (/[!#$%&*()+\-{};'"|,<>\/~]/.test(s)) {
-            throw new SkapiError(`${p} should not have special characters. Allowed special characters are: [ \] ^ _ \` : ; < = > ? @`, { code: 'INVALID_PARAMETER' });
+            throw new SkapiError(`${p} should not have special characters. Allowed special characters are: [ \] ^ _ \` : ; < = > ? @`, { code: 'INVALID_PARAMETER', messageId: 'special_chars', messageParams: { param: p } });
         }
     };
 
@@ -186,163 +187,408 @@ function specialChars(
     return string;
 }
 
-function Params(
-    params: any,
-    struct: Record<string, any>,
-    required: string[] = [],
-    options?: {
-        ignoreEmpty?: boolean;
-        nullIfEmpty?: boolean;
-    }
-): any {
-    // struct = {
-    //     a: 'type or value',
-    //     b: ['number', 'boolean', 'string', 'array', 'function', 'custom value', () => 'default value when none match, or is missing'],
-    //     c: (v: any) => { return 'value to assign'; }
-    // }
+// Schema builder.
+// Schemas check the value and collect every issue with the path of the value.
+// ex) const user = schema.object({ name: schema.string(), age: schema.number().optional() });
+//     user.parse(value); // { name: string; age?: number; }
 
-    let p = extractFormData(params, options).data;
-    struct.service = 'string';
-    struct.owner = 'string';
+type Issue = ValidationIssue & { error: SkapiError; };
+type Context = { path: (string | number)[]; issues: Issue[]; };
 
-    let toCheck = {};
+export type Infer<S> = S extends Schema<infer T> ? T : never;
 
-    for (let s in struct) {
-        if (p && typeof p === 'object' && !Array.isArray(p) && p.hasOwnProperty(s)) {
-            if (typeof p[s] === 'function') {
-                toCheck[s] = p[s];
-            }
-            else {
-                try {
-                    toCheck[s] = JSON.parse(JSON.stringify(p[s]));
-                }
-                catch (err) {
-                    toCheck[s] = p[s];
-                }
-            }
-        }
+type Shape = { [key: string]: Schema<any>; };
+// keys of optional() schemas. branded, as undefined cannot be told apart without strictNullChecks
+type OptionalKeys<S extends Shape> = { [K in keyof S]: S[K] extends { readonly __optional: true; } ? K : never }[keyof S];
+type ObjectOf<S extends Shape> = { [K in Exclude<keyof S, OptionalKeys<S>>]: Infer<S[K]> } & { [K in OptionalKeys<S>]?: Infer<S[K]> };
+
+function formatPath(path: (string | number)[]): string {
+    return path.map((p, i) => typeof p === 'number' ? `[${p}]` : (i ? '.' : '') + p).join('');
+}
+
+function paramName(ctx: Context): string {
+    return ctx.path.length ? `"${formatPath(ctx.path)}"` : 'Parameter';
+}
+
+function addIssue(ctx: Context, error: any, code?: string) {
+    let err = error instanceof SkapiError ? error : new SkapiError(error, { code: 'INVALID_PARAMETER' });
+    let path = formatPath(ctx.path);
+
+    if (err.details?.length) {
+        // issues of the nested validation. ex) validator.Params() called in the custom function
+        err.details.forEach((d, i) => {
+            let nested = path && d.path ? (d.path.startsWith('[') ? path + d.path : `${path}.${d.path}`) : path || d.path;
+            let error = i ? new SkapiError(d.message, { code: 'INVALID_PARAMETER', messageId: d.messageParams ? d.code : undefined, messageParams: d.messageParams }) : err;
+            ctx.issues.push({ path: nested, code: d.code, message: d.message, messageParams: d.messageParams, error });
+        });
+        return;
     }
 
-    try {
-        return checkParams(toCheck, struct, required);
+    // message of the issue code can be translated
+    let translatable = err.messageId && (!code || code === err.messageId);
+    ctx.issues.push({ path, code: code || err.messageId || 'invalid', message: err.message, messageParams: translatable ? err.messageParams || {} : undefined, error: err });
+}
+
+function toValidationIssue({ path, code, message, messageParams }: Issue): ValidationIssue {
+    return messageParams ? { path, code, message, messageParams } : { path, code, message };
+}
+
+function typeIssue(ctx: Context, type: string) {
+    let param = paramName(ctx);
+    addIssue(ctx, new SkapiError(`${param} should be type: ${type}.`, { code: 'INVALID_PARAMETER', messageId: 'type', messageParams: { param, type } }));
+}
+
+function requiredIssue(ctx: Context) {
+    let param = formatPath(ctx.path);
+    addIssue(ctx, new SkapiError(`"${param}" is required.`, { code: 'INVALID_PARAMETER', messageId: 'required', messageParams: { param } }));
+}
+
+export class Schema<T> {
+    /** Checks the value. Issues are added to the context. Returns the parsed value. */
+    readonly __check: (value: any, ctx: Context) => T;
+
+    constructor(check: (value: any, ctx: Context) => T) {
+        this.__check = check;
     }
-    catch (err) {
-        throw new SkapiError(err, { code: 'INVALID_PARAMETER' });
+
+    /** Allows undefined. Key is optional in the object. */
+    optional(): Schema<T | undefined> & { readonly __optional: true; } {
+        return Object.assign(new Schema((v, ctx) => v === undefined ? undefined : this.__check(v, ctx)), { __optional: true as const });
     }
-}
 
-function checkParams(params: any, struct: any, required: string[] = [], _parentKey = null) {
-    function isObjectWithKeys(obj) {
-        return obj && typeof obj === 'object' && !Array.isArray(obj) && Object.keys(obj).length;
+    /** Allows null. */
+    nullable(): Schema<T | null> {
+        return new Schema((v, ctx) => v === null ? null : this.__check(v, ctx));
     }
-    function isArrayWithValues(arr) {
-        return Array.isArray(arr) && arr.length;
+
+    /** Uses the default value when the value is undefined. Function is called for each default value. */
+    default(value: T | (() => T)): Schema<T> {
+        return new Schema((v, ctx) => this.__check(v === undefined ? (typeof value === 'function' ? (value as () => T)() : value) : v, ctx));
     }
-    if (_parentKey === null && !isObjectWithKeys(struct)) {
-        throw 'Argument "struct" is required.';
+
+    /** Adds an issue when the check returns false. Not checked when the value already has issues. */
+    refine(check: (value: T) => boolean, message: string, code = 'invalid'): Schema<T> {
+        return new Schema((v, ctx) => {
+            let count = ctx.issues.length;
+            let value = this.__check(v, ctx);
+            if (ctx.issues.length === count && !check(value)) {
+                addIssue(ctx, new SkapiError(message, { code: 'INVALID_PARAMETER', messageId: code, messageParams: { param: paramName(ctx) } }));
+            }
+            return value;
+        });
     }
-    let invalid_in = _parentKey !== null ? ` in key "${_parentKey}" is invalid.` : '. Parameter should be type <object>.';
 
-    if (isArrayWithValues(struct)) {
-        let should_be = ''
-        struct.forEach(s => {
-            if (['string', 'number', 'boolean', 'object', 'array'].includes(s)) {
-                should_be += `Type<${s}>, `
+    /** Converts the value. Errors thrown in the function are added as issues. */
+    transform<U>(fn: (value: T) => U): Schema<U> {
+        return new Schema((v, ctx) => {
+            let count = ctx.issues.length;
+            let value = this.__check(v, ctx);
+            if (ctx.issues.length > count) {
+                return value as any;
+            }
+            try {
+                return fn(value);
             }
-            else if (typeof s !== 'function') {
-                should_be += JSON.stringify(s, null, 2) + ', '
+            catch (err) {
+                addIssue(ctx, err);
+                return value as any;
             }
         });
+    }
 
-        should_be = should_be ? ' Should be: ' + should_be.slice(0, -2) : '';
+    safeParse(value: any): { ok: true; value: T; } | { ok: false; issues: ValidationIssue[]; } {
+        let ctx: Context = { path: [], issues: [] };
+        let result = this.__check(value, ctx);
+        if (ctx.issues.length) {
+            return { ok: false, issues: ctx.issues.map(toValidationIssue) };
+        }
+        return { ok: true, value: result };
+    }
 
-        let pass = false;
-        let val;
-        let err_msg = ''
-        for (let s of struct) {
-            try {
-                val = checkParams(params, s, required, _parentKey);
-                pass = true;
-                break;
+    /** Returns the parsed value. Throws SkapiError of the first issue, with every issue in details. */
+    parse(value: any): T {
+        let ctx: Context = { path: [], issues: [] };
+        let result = this.__check(value, ctx);
+        if (ctx.issues.length) {
+            let err = ctx.issues[0].error;
+            err.details = ctx.issues.map(toValidationIssue);
+            throw err;
+        }
+        return result;
+    }
+}
+
+function primitive<T>(type: string, test: (v: any) => boolean): Schema<T> {
+    return new Schema((v, ctx) => {
+        if (!test(v)) {
+            typeIssue(ctx, type);
+        }
+        return v;
+    });
+}
+
+export const schema = {
+    string: () => primitive<string>('string', v => typeof v === 'string'),
+    number: () => primitive<number>('number', v => typeof v === 'number' && !isNaN(v)),
+    boolean: () => primitive<boolean>('boolean', v => typeof v === 'boolean'),
+    function: <F extends (...args: any[]) => any>() => primitive<F>('function', v => typeof v === 'function'),
+    any: () => new Schema<any>(v => v),
+
+    /** One of the values. ex) schema.literal('gt', 'lt') */
+    literal<V extends string | number | boolean | null>(...values: V[]): Schema<V> {
+        return new Schema((v, ctx) => {
+            if (!values.includes(v)) {
+                let param = paramName(ctx);
+                addIssue(ctx, new SkapiError(`${param} should be one of: ${values.map(l => JSON.stringify(l)).join(', ')}.`, { code: 'INVALID_PARAMETER', messageId: 'invalid', messageParams: { param } }));
+            }
+            return v;
+        });
+    },
+
+    /** Value returned from the function. Errors thrown in the function are added as issues. */
+    custom<T>(fn: (value: any) => T): Schema<T> {
+        return schema.any().transform(fn);
+    },
+
+    array<T>(item: Schema<T>): Schema<T[]> {
+        return new Schema((v, ctx) => {
+            if (!Array.isArray(v)) {
+                typeIssue(ctx, 'array');
+                return v;
+            }
+            return v.map((val, i) => item.__check(val, { path: ctx.path.concat(i), issues: ctx.issues }));
+        });
+    },
+
+    /** Object with the keys of the shape. Other keys are removed unless passthrough is true. */
+    object<S extends Shape>(shape: S, options?: { passthrough?: boolean; }): Schema<ObjectOf<S>> & { readonly shape: S; } {
+        return Object.assign(new Schema<ObjectOf<S>>((v, ctx) => {
+            if (!v || typeof v !== 'object' || Array.isArray(v)) {
+                typeIssue(ctx, 'object');
+                return v;
             }
-            catch (err: any) {
-                if (typeof s === 'function') {
-                    err_msg = err?.message || err;
+
+            let output = options?.passthrough ? Object.assign({}, v) : {};
+            for (let k in shape) {
+                let child: Context = { path: ctx.path.concat(k), issues: ctx.issues };
+                let value: any;
+
+                if (v[k] === undefined) {
+                    // missing key is reported as required, not as a type mismatch
+                    let missing: Context = { path: child.path, issues: [] };
+                    value = shape[k].__check(undefined, missing);
+                    if (missing.issues.length) {
+                        requiredIssue(child);
+                        continue;
+                    }
                 }
                 else {
-                    err_msg = '';
+                    value = shape[k].__check(v[k], child);
+                }
+
+                if (value !== undefined) {
+                    output[k] = value;
                 }
-                pass = false;
             }
-        }
-        if (!pass) {
-            throw err_msg || `Invalid type "${typeof params}"${invalid_in}${should_be}.`
-        }
-        return val;
+
+            return output as ObjectOf<S>;
+        }), { shape });
+    },
+
+    /** First option that passes. Issues of the last option are reported when none passes. */
+    union<S extends Schema<any>[]>(...options: S): Schema<Infer<S[number]>> {
+        return new Schema((v, ctx) => {
+            let issues: Issue[] = [];
+            for (let o of options) {
+                issues = [];
+                let value = o.__check(v, { path: ctx.path, issues });
+                if (!issues.length) {
+                    return value;
+                }
+            }
+            ctx.issues.push(...issues);
+            return v;
+        });
     }
-    if (isObjectWithKeys(params)) {
-        if (isObjectWithKeys(struct)) {
-            for (let k in struct) {
-                // scan defaults
-                let key = (_parentKey === null ? '' : _parentKey) + (_parentKey !== null ? '[' + k + ']' : k);
+};
+
+// validator.Params struct.
+// struct = {
+//     a: 'type or value',
+//     b: ['number', 'boolean', 'string', 'array', 'function', 'custom value', () => 'default value when none match, or is missing'],
+//     c: (v: any) => { return 'value to assign'; }
+// }
+// Values that are null, undefined or empty object pass any struct.
+
+function isObjectWithKeys(obj) {
+    return obj && typeof obj === 'object' && !Array.isArray(obj) && Object.keys(obj).length;
+}
 
-                if (!params.hasOwnProperty(k)) {
-                    if (required.includes(key)) {
-                        throw `Key "${key}" is required.`;
-                    }
+function isArrayWithValues(arr) {
+    return Array.isArray(arr) && arr.length;
+}
 
-                    if (isArrayWithValues(struct[k]) && typeof struct[k][struct[k].length - 1] === 'function') {
-                        params[k] = struct[k][struct[k].length - 1]();
-                    }
+function isEmptyObject(obj) {
+    return obj && typeof obj === 'object' && !Array.isArray(obj) && !Object.keys(obj).length;
+}
+
+function describeStruct(struct: any): string {
+    return ['string', 'number', 'boolean', 'object', 'array'].includes(struct) ? `Type<${struct}>` : JSON.stringify(struct, null, 2);
+}
+
+/** Converts validator.Params struct to schema. parentKey is the key path of the struct. ex) 'table[name]' */
+function fromStruct(struct: any, required: string[] = [], parentKey: string = null): Schema<any> {
+    let invalid_in = parentKey !== null ? ` in key "${parentKey}" is invalid.` : '. Parameter should be type <object>.';
+    let keyPath = (k: string | number) => parentKey === null ? String(k) : `${parentKey}[${k}]`;
+
+    if (typeof struct === 'function') {
+        return schema.custom(struct);
+    }
+
+    if (isArrayWithValues(struct)) {
+        let should_be = struct.filter(s => typeof s !== 'function').map(describeStruct).join(', ');
+        should_be = should_be ? ' Should be: ' + should_be : '';
+
+        return new Schema((v, ctx) => {
+            let error = null;
+            for (let s of struct) {
+                let issues: Issue[] = [];
+                let value = fromStruct(s, required, parentKey).__check(v, { path: ctx.path, issues });
+                if (!issues.length) {
+                    return value;
                 }
+                // error of the custom function is kept as is
+                error = typeof s === 'function' ? issues[0].error : null;
             }
-        }
+            addIssue(ctx, error || `Invalid type "${typeof v}"${invalid_in}${should_be}.`, error ? undefined : 'type');
+            return v;
+        });
+    }
 
-        if ('object' === struct) {
-            return params;
-        }
+    return new Schema((v, ctx) => {
+        if (isObjectWithKeys(v)) {
+            if (!isObjectWithKeys(struct)) {
+                // keys are not checked against type or value structs
+                return v;
+            }
 
-        else if (typeof struct === 'function') {
-            return struct(params);
-        }
+            // scan defaults
+            for (let k in struct) {
+                if (v.hasOwnProperty(k)) {
+                    continue;
+                }
 
-        for (let k in params) {
-            let parentKey = (_parentKey === null ? '' : _parentKey) + (_parentKey !== null ? '[' + k + ']' : k);
-            if (!isArrayWithValues(struct) && !struct.hasOwnProperty(k)) {
-                // throw `Key name "${parentKey}" is invalid in parameter.`;
-                continue;
+                let key = keyPath(k);
+                if (required.includes(key)) {
+                    addIssue({ path: ctx.path.concat(k), issues: ctx.issues }, new SkapiError(`Key "${key}" is required.`, { code: 'INVALID_PARAMETER', messageId: 'key_required', messageParams: { key } }), 'required');
+                }
+                else if (isArrayWithValues(struct[k]) && typeof struct[k][struct[k].length - 1] === 'function') {
+                    v[k] = struct[k][struct[k].length - 1]();
+                }
             }
-            if (isArrayWithValues(params[k])) {
-                if (struct[k] === 'array') {
+
+            for (let k in v) {
+                if (!struct.hasOwnProperty(k)) {
                     continue;
                 }
-                if (typeof struct[k] === 'function') {
-                    params[k] = struct[k](params[k]);
-                    continue;
+
+                let child: Context = { path: ctx.path.concat(k), issues: ctx.issues };
+                if (isArrayWithValues(v[k])) {
+                    if (struct[k] === 'array') {
+                        continue;
+                    }
+                    if (typeof struct[k] === 'function') {
+                        v[k] = schema.custom(struct[k]).__check(v[k], child);
+                        continue;
+                    }
+                    // each item is checked against the struct
+                    v[k] = v[k].map((item, i) => fromStruct(struct[k], required, `${keyPath(k)}[${i}]`).__check(item, { path: child.path.concat(i), issues: ctx.issues }));
                 }
-                for (let i = 0; i < params[k].length; i++) {
-                    params[k][i] = checkParams(params[k][i], struct[k], required, parentKey + `[${i}]`);
+                else {
+                    v[k] = fromStruct(struct[k], required, keyPath(k)).__check(v[k], child);
                 }
             }
-            else {
-                params[k] = checkParams(params[k], struct[k], required, parentKey);
+
+            return v;
+        }
+
+        if (struct === 'array' && Array.isArray(v) || struct === typeof v || v === struct) {
+            return v;
+        }
+
+        if (v === null || v === undefined || isEmptyObject(v)) {
+            return v;
+        }
+
+        addIssue(ctx, `Invalid type "${typeof v}"${invalid_in} Should be: ${describeStruct(struct)}`, 'type');
+        return v;
+    });
+}
+
+type ParamsOptions = {
+    ignoreEmpty?: boolean;
+    nullIfEmpty?: boolean;
+};
+
+// values are copied so the checks can modify them. functions are kept as is
+function copyParams(p: Record<string, any>, keys: string[]): Record<string, any> {
+    let copy = {};
+    for (let k of keys) {
+        if (typeof p[k] === 'function') {
+            copy[k] = p[k];
+        }
+        else {
+            try {
+                copy[k] = JSON.parse(JSON.stringify(p[k]));
+            }
+            catch (err) {
+                copy[k] = p[k];
             }
         }
-        return params;
     }
-    if (typeof struct === 'function') {
-        return struct(params);
+    return copy;
+}
+
+const serviceParams = schema.object({
+    service: schema.string().optional(),
+    owner: schema.string().optional()
+});
+
+/**
+ * Validates the parameters of the method. Form is converted to an object.
+ * Takes a schema, or a struct of the methods not yet moved to schema.
+ */
+function Params<T>(params: any, struct: Schema<T>, options?: ParamsOptions): T & Infer<typeof serviceParams>;
+function Params(params: any, struct: Record<string, any>, required?: string[], options?: ParamsOptions): any;
+function Params(params: any, struct: Schema<any> | Record<string, any>, required?: string[] | ParamsOptions, options?: ParamsOptions): any {
+    if (struct instanceof Schema) {
+        let p = extractFormData(params, required as ParamsOptions).data;
+        if (!p || typeof p !== 'object' || Array.isArray(p)) {
+            p = {};
+        }
+        let copy = copyParams(p, Object.keys(p));
+        return Object.assign(struct.parse(copy), serviceParams.parse(copy));
     }
-    if (struct === 'array' && Array.isArray(params) || struct === typeof params || params === struct) {
-        return params;
+
+    let p = extractFormData(params, options).data;
+    struct.service = 'string';
+    struct.owner = 'string';
+
+    let toCheck = p && typeof p === 'object' && !Array.isArray(p) ? copyParams(p, Object.keys(struct).filter(s => p.hasOwnProperty(s))) : {};
+
+    try {
+        return checkParams(toCheck, struct, required as string[]);
     }
-    function isEmptyObject(obj) {
-        return obj && typeof obj === 'object' && !Array.isArray(obj) && !Object.keys(obj).length;
+    catch (err) {
+        throw new SkapiError(err, { code: 'INVALID_PARAMETER' });
     }
-    if (params === null || params === undefined || isEmptyObject(params)) {
-        return params;
+}
+
+function checkParams(params: any, struct: any, required: string[] = [], _parentKey = null) {
+    if (_parentKey === null && !isObjectWithKeys(struct)) {
+        throw new SkapiError('Argument "struct" is required.', { code: 'INVALID_PARAMETER' });
     }
-    throw `Invalid type "${typeof params}"${invalid_in} Should be: ${(['string', 'number', 'boolean', 'object', 'array'].includes(struct) ? `Type<${struct}>` : JSON.stringify(struct, null, 2))}`;
+    return fromStruct(struct, required, _parentKey).parse(params);
 }
 
 export default {
@@ -354,5 +600,6 @@ export default {
     Url,
     specialChars,
     Params,
-    checkParams
-};
\ No newline at end of file
+    checkParams,
+    schema
+};
@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { enforceCacheBudget, normalizeCachePolicy } from '../src/utils/cache';
+
+function cacheOf(policy: { maxEntries: number; maxSize: number; }, queries: { url: string; hash: string; accessed: number; size: number; }[]) {
+    let ctx: Record<string, any> = {
+        __cachePolicy: normalizeCachePolicy(policy),
+        __cacheMeta: {},
+        __cached_requests: {},
+        __queryCache: {},
+        __startKeyHistory: {}
+    };
+
+    for (let q of queries) {
+        ctx.__cacheMeta[q.url] = ctx.__cacheMeta[q.url] || {};
+        ctx.__cacheMeta[q.url][q.hash] = { params: {}, accessed: q.accessed, size: q.size };
+        ctx.__queryCache[q.url] = ctx.__queryCache[q.url] || {};
+        ctx.__queryCache[q.url][q.hash + '#page'] = { result: {}, stored: 0, hashedParams: q.hash };
+        ctx.__startKeyHistory[q.url] = ctx.__startKeyHistory[q.url] || {};
+        ctx.__startKeyHistory[q.url][q.hash] = ['end'];
+    }
+
+    return ctx;
+}
+
+function cachedHashes(ctx: Record<string, any>): string[] {
+    return Object.values(ctx.__cacheMeta).flatMap(m => Object.keys(m)).sort();
+}
+
+test('enforceCacheBudget evicts least recently used queries over maxEntries', () => {
+    let ctx = cacheOf({ maxEntries: 2, maxSize: 1000 }, [
+        { url: 'get-records', hash: 'a', accessed: 3, size: 10 },
+        { url: 'get-records', hash: 'b', accessed: 1, size: 10 },
+        { url: 'get-users', hash: 'c', accessed: 2, size: 10 }
+    ]);
+
+    enforceCacheBudget.bind(ctx)();
+
+    assert.deepEqual(cachedHashes(ctx), ['a', 'c']);
+    assert.deepEqual(Object.keys(ctx.__queryCache['get-records']), ['a#page']);
+    assert.equal(ctx.__startKeyHistory['get-records'].b, undefined);
+});
+
+test('enforceCacheBudget evicts until the size fits in maxSize', () => {
+    let ctx = cacheOf({ maxEntries: 10, maxSize: 100 }, [
+        { url: 'get-records', hash: 'a', accessed: 1, size: 60 },
+        { url: 'get-records', hash: 'b', accessed: 2, size: 30 },
+        { url: 'get-records', hash: 'c', accessed: 3, size: 30 }
+    ]);
+
+    enforceCacheBudget.bind(ctx)();
+
+    assert.deepEqual(cachedHashes(ctx), ['b', 'c']);
+});
+
+test('enforceCacheBudget ratio shrinks the budget', () => {
+    let ctx = cacheOf({ maxEntries: 4, maxSize: 1000 }, [
+        { url: 'get-records', hash: 'a', accessed: 1, size: 10 },
+        { url: 'get-records', hash: 'b', accessed: 2, size: 10 },
+        { url: 'get-records', hash: 'c', accessed: 3, size: 10 },
+        { url: 'get-records', hash: 'd', accessed: 4, size: 10 }
+    ]);
+
+    enforceCacheBudget.bind(ctx)();
+    assert.equal(cachedHashes(ctx).length, 4);
+
+    enforceCacheBudget.bind(ctx)(0.5);
+    assert.deepEqual(cachedHashes(ctx), ['c', 'd']);
+});
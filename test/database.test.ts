@@ -0,0 +1,23 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mergePatch } from '../src/methods/database';
+
+test('mergePatch merges nested objects and removes null keys', () => {
+    let target = { a: 1, b: { c: 2, d: 3 }, e: 4 };
+    let result = mergePatch(target, { b: { c: 5, d: null }, e: null, f: 6 });
+
+    assert.deepEqual(result, { a: 1, b: { c: 5 }, f: 6 });
+    assert.deepEqual(target, { a: 1, b: { c: 2, d: 3 }, e: 4 });
+});
+
+test('mergePatch replaces arrays and non object values', () => {
+    assert.deepEqual(mergePatch({ a: [1, 2] }, { a: [3] }), { a: [3] });
+    assert.equal(mergePatch({ a: 1 }, 'value'), 'value');
+    assert.deepEqual(mergePatch('value', { a: 1 }), { a: 1 });
+});
+
+test('mergePatch applies array patches', () => {
+    assert.deepEqual(mergePatch(['a', 'b', 'c'], { $remove: ['b'], $append: ['d'] }), ['a', 'c', 'd']);
+    assert.deepEqual(mergePatch([{ id: 1 }, { id: 2 }], { $remove: [{ id: 1 }] }), [{ id: 2 }]);
+    assert.deepEqual(mergePatch(undefined, { $append: ['a'] }), ['a']);
+});
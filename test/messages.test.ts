@@ -0,0 +1,38 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import SkapiError from '../src/main/error';
+import { schema } from '../src/utils/validator';
+import { localizeError } from '../src/utils/messages';
+
+test('localizeError translates the message and every validation issue', () => {
+    let ctx = {
+        __locale: 'test',
+        __messages: {
+            test: {
+                'INVALID_PARAMETER.required': '{param}: missing',
+                'INVALID_PARAMETER.type': '{param}: not a {type}'
+            }
+        }
+    };
+
+    let err: SkapiError;
+    try {
+        schema.object({ name: schema.string(), age: schema.number() }).parse({ age: 'old' });
+    }
+    catch (e: any) {
+        err = localizeError.bind(ctx)(e);
+    }
+
+    assert.equal(err.message, 'name: missing');
+    assert.deepEqual(err.details.map(d => d.message), ['name: missing', '"age": not a number']);
+});
+
+test('localizeError keeps messages that has no translation', () => {
+    let err = new SkapiError('Custom message.', { code: 'INVALID_PARAMETER' });
+    err.details = [{ path: 'a', code: 'invalid', message: 'Custom message.' }];
+
+    localizeError.bind({ __locale: 'ko', __messages: {} })(err);
+
+    assert.equal(err.message, 'Custom message.');
+    assert.equal(err.details[0].message, 'Custom message.');
+});
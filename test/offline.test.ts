@@ -0,0 +1,40 @@
+import { test, afterEach } from 'node:test';
+import assert from 'node:assert/strict';
+import { SkapiNetworkError } from '../src/main/error';
+import { isOfflineError } from '../src/methods/offline';
+
+function networkError(requestSent?: boolean) {
+    let err = new SkapiNetworkError('Network error.', { code: 'NETWORK_ERROR' });
+    err.requestSent = requestSent;
+    return err;
+}
+
+function setOnline(onLine: boolean) {
+    Object.defineProperty(globalThis, 'navigator', { value: { onLine }, configurable: true, writable: true });
+}
+
+const offlineMode = { __offlineStorage: {} };
+
+afterEach(() => setOnline(true));
+
+test('network errors while the browser is offline are queued', () => {
+    setOnline(false);
+    assert.equal(isOfflineError.bind(offlineMode)(networkError()), true);
+    assert.equal(isOfflineError.bind(offlineMode)(networkError(true)), true);
+});
+
+test('network errors before the request was sent are queued', () => {
+    assert.equal(isOfflineError.bind(offlineMode)(networkError(false)), true);
+});
+
+test('network errors after the request was sent, or unknown, are not queued while online', () => {
+    assert.equal(isOfflineError.bind(offlineMode)(networkError(true)), false);
+    assert.equal(isOfflineError.bind(offlineMode)(networkError()), false);
+});
+
+test('other errors, or without offline mode, are not queued', () => {
+    setOnline(false);
+    assert.equal(isOfflineError.bind(offlineMode)(new SkapiNetworkError('Request has timed out.', { code: 'TIMEOUT' })), false);
+    assert.equal(isOfflineError.bind(offlineMode)(null), false);
+    assert.equal(isOfflineError.bind({ __offlineStorage: null })(networkError(false)), false);
+});
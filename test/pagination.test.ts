@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import SkapiError from '../src/main/error';
+import { DatabaseResponse } from '../src/Types';
+import { encodeCursor, decodeCursor, withCursors } from '../src/methods/pagination';
+
+function pageOf(list: number[], startKey: DatabaseResponse<number>['startKey'], endOfList = false): DatabaseResponse<number> {
+    return { list, startKey, endOfList, startKeyHistory: [] };
+}
+
+test('cursor round trips through encode and decode', () => {
+    let cursor = { k: { rec: 'a/b+c', name: 'ㅎㅏ' }, h: [{ rec: '1' }, { rec: '2' }] };
+    let encoded = encodeCursor(cursor);
+
+    assert.match(encoded, /^[A-Za-z0-9_-]+$/);
+    assert.deepEqual(decodeCursor(encoded), cursor);
+});
+
+test('decodeCursor rejects invalid cursors', () => {
+    for (let c of [null, 123, '!!!', encodeCursor({ k: 'key', h: [] } as any), btoa('{"k":null}')]) {
+        assert.throws(() => decodeCursor(c as any), (err: any) => err instanceof SkapiError && err.code === 'INVALID_PARAMETER');
+    }
+});
+
+test('withCursors adds next and previous cursors', () => {
+    let page = pageOf([1, 2], { rec: '3' });
+    let res = withCursors(page, { rec: '2' }, [{ rec: '1' }]);
+
+    assert.deepEqual(decodeCursor(res.nextCursor), { k: { rec: '3' }, h: [{ rec: '1' }, { rec: '2' }] });
+    assert.deepEqual(decodeCursor(res.prevCursor), { k: { rec: '1' }, h: [] });
+    assert.equal(page.nextCursor, undefined);
+});
+
+test('withCursors has no next cursor at the end of list, and no previous cursor on the first page', () => {
+    let res = withCursors(pageOf([], 'end', true), undefined, []);
+
+    assert.equal(res.nextCursor, null);
+    assert.equal(res.prevCursor, null);
+});
+
+test('withCursors has no previous cursor when the history is unknown', () => {
+    let res = withCursors(pageOf([1], { rec: '3' }), { rec: '2' }, null);
+
+    assert.equal(res.prevCursor, null);
+    assert.deepEqual(decodeCursor(res.nextCursor), { k: { rec: '3' }, h: [{ rec: '2' }] });
+});
@@ -0,0 +1,55 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import SkapiError from '../src/main/error';
+import validator, { schema } from '../src/utils/validator';
+
+const user = schema.object({
+    name: schema.string(),
+    nickname: schema.string().optional(),
+    misc: schema.string().nullable(),
+    bio: schema.string().nullable().optional(),
+    public: schema.boolean().nullable().default(false)
+});
+
+test('optional allows missing keys, but not null', () => {
+    assert.deepEqual(user.parse({ name: 'a', misc: 'b' }), { name: 'a', misc: 'b', public: false });
+
+    let res = user.safeParse({ name: 'a', misc: 'b', nickname: null });
+    assert.deepEqual(res.ok === false && res.issues.map(i => [i.path, i.code]), [['nickname', 'type']]);
+});
+
+test('nullable allows null, but is still required', () => {
+    assert.deepEqual(user.parse({ name: 'a', misc: null, bio: null, public: null }), { name: 'a', misc: null, bio: null, public: null });
+
+    let res = user.safeParse({ name: 'a' });
+    assert.deepEqual(res.ok === false && res.issues.map(i => [i.path, i.code]), [['misc', 'required']]);
+});
+
+test('default is used only when the value is missing', () => {
+    assert.equal(user.parse({ name: 'a', misc: null }).public, false);
+    assert.equal(user.parse({ name: 'a', misc: null, public: true }).public, true);
+});
+
+test('parse throws the first issue with every issue in details', () => {
+    assert.throws(() => user.parse({ name: 1, nickname: 2 }), (err: any) => {
+        assert.ok(err instanceof SkapiError);
+        assert.equal(err.code, 'INVALID_PARAMETER');
+        assert.equal(err.message, '"name" should be type: string.');
+        assert.deepEqual(err.details.map(d => d.path), ['name', 'nickname', 'misc']);
+        return true;
+    });
+});
+
+test('nested paths are reported with the parent key', () => {
+    let res = schema.object({
+        table: schema.object({ name: schema.string() }).optional(),
+        tags: schema.array(schema.string()).optional()
+    }).safeParse({ table: {}, tags: ['a', 1] });
+
+    assert.deepEqual(res.ok === false && res.issues.map(i => [i.path, i.code]), [['table.name', 'required'], ['tags[1]', 'type']]);
+});
+
+test('Params validates forms with a schema and keeps service parameters', () => {
+    let params = validator.Params({ name: 'a', misc: null, other: 1, service: 'srvc' }, user);
+    assert.deepEqual(params, { name: 'a', misc: null, public: false, service: 'srvc' });
+});